@@ -0,0 +1,445 @@
+import { LAMPORTS_PER_SOL, Keypair, PublicKey } from "@solana/web3.js";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { buyToken } from "./buy-token.js";
+import { resolveTradingVenue } from "./pump-swap.js";
+import { resolveAccount } from "./list-accounts.js";
+import { enforceSpendingPolicy } from "./spending-policy.js";
+import { PriorityFeeOptions } from "./priority-fees.js";
+import { ErrorCode, PumpfunError, errorResult, toToolError } from "./errors.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const MIN_BUY_AMOUNT_SOL = 0.0001;
+// Matches the headroom buyToken requires on top of the buy amount for fees
+const FEE_RESERVE_SOL = 0.001;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+export type BatchBuyAllocation = {
+  accountName: string;
+  amountSol: number;
+};
+
+export type BatchBuyEntry = BatchBuyAllocation & {
+  publicKey: string;
+  status: "filled" | "failed";
+  signature?: string;
+  tokensPurchased?: number;
+  error?: string;
+  code?: ErrorCode;
+  retryable?: boolean;
+};
+
+// Adds up in lamports so the total does not pick up floating point noise
+export function sumSol(allocations: BatchBuyAllocation[]) {
+  return (
+    allocations.reduce(
+      (total, allocation) =>
+        total + Math.round(allocation.amountSol * LAMPORTS_PER_SOL),
+      0
+    ) / LAMPORTS_PER_SOL
+  );
+}
+
+/**
+ * Builds the per-account amounts from either an explicit list or a total that
+ * is split evenly. The split is done in lamports and any remainder goes to the
+ * first account, so the amounts always add up to the total.
+ */
+export function resolveAllocations(request: {
+  allocations?: BatchBuyAllocation[];
+  accountNames?: string[];
+  totalSol?: number;
+}): BatchBuyAllocation[] {
+  const hasAllocations = request.allocations !== undefined;
+  const hasSplit =
+    request.accountNames !== undefined || request.totalSol !== undefined;
+  if (hasAllocations === hasSplit) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      "Provide either allocations, or accountNames with totalSol to split evenly"
+    );
+  }
+
+  let allocations: BatchBuyAllocation[];
+  if (hasAllocations) {
+    allocations = request.allocations!;
+  } else {
+    if (!request.accountNames?.length || request.totalSol === undefined) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "An even split needs both accountNames and totalSol"
+      );
+    }
+
+    const totalLamports = Math.round(request.totalSol * LAMPORTS_PER_SOL);
+    const share = Math.floor(totalLamports / request.accountNames.length);
+    const remainder = totalLamports - share * request.accountNames.length;
+    allocations = request.accountNames.map((accountName, index) => ({
+      accountName,
+      amountSol: (share + (index === 0 ? remainder : 0)) / LAMPORTS_PER_SOL,
+    }));
+  }
+
+  if (allocations.length === 0) {
+    throw new PumpfunError("INVALID_INPUT", "The batch has no accounts");
+  }
+
+  const seen = new Set<string>();
+  for (const allocation of allocations) {
+    if (seen.has(allocation.accountName)) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `Account ${allocation.accountName} appears more than once in the batch`,
+        { accountName: allocation.accountName }
+      );
+    }
+    seen.add(allocation.accountName);
+
+    if (!(allocation.amountSol >= MIN_BUY_AMOUNT_SOL)) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `Account ${allocation.accountName} would buy ${allocation.amountSol} SOL, below the minimum of ${MIN_BUY_AMOUNT_SOL} SOL`,
+        { accountName: allocation.accountName, amountSol: allocation.amountSol }
+      );
+    }
+  }
+
+  return allocations;
+}
+
+/**
+ * Checks every account before anything is sent: that it exists, that the
+ * spending policy allows the buy and that it holds enough SOL. Balances are
+ * fetched in a single RPC call. Returns the signers, or throws listing every
+ * account that failed.
+ */
+async function precheckBatchBuy(
+  client: ReturnType<typeof initializeSDK>,
+  tokenAddress: string,
+  allocations: BatchBuyAllocation[],
+  slippageBasisPoints: number
+) {
+  const { sdk, connection } = client;
+
+  // Throws when the token trades on neither its curve nor a PumpSwap pool
+  await resolveTradingVenue(sdk, connection, new PublicKey(tokenAddress));
+
+  const failures: { accountName: string; code: ErrorCode; error: string }[] =
+    [];
+  const signers = new Map<string, Keypair>();
+
+  for (const allocation of allocations) {
+    try {
+      const account = await resolveAccount(allocation.accountName);
+      enforceSpendingPolicy({
+        accountName: allocation.accountName,
+        publicKey: account.publicKey,
+        side: "buy",
+        mint: tokenAddress,
+        solAmount: allocation.amountSol,
+        slippageBasisPoints,
+      });
+      signers.set(allocation.accountName, account);
+    } catch (error) {
+      const toolError = toToolError(error);
+      failures.push({
+        accountName: allocation.accountName,
+        code: toolError.code,
+        error: toolError.message,
+      });
+    }
+  }
+
+  const checked = allocations.filter((allocation) =>
+    signers.has(allocation.accountName)
+  );
+  const accountInfos = await connection.getMultipleAccountsInfo(
+    checked.map((allocation) => signers.get(allocation.accountName)!.publicKey)
+  );
+  checked.forEach((allocation, index) => {
+    const balance = (accountInfos[index]?.lamports || 0) / LAMPORTS_PER_SOL;
+    const required = allocation.amountSol + FEE_RESERVE_SOL;
+    if (balance < required) {
+      failures.push({
+        accountName: allocation.accountName,
+        code: "INSUFFICIENT_SOL",
+        error: `Insufficient SOL balance. Account ${signers
+          .get(allocation.accountName)!
+          .publicKey.toString()} has ${balance} SOL, but needs at least ${required} SOL.`,
+      });
+    }
+  });
+
+  if (failures.length > 0) {
+    const codes = new Set(failures.map((failure) => failure.code));
+    throw new PumpfunError(
+      codes.size === 1 ? failures[0].code : "INVALID_INPUT",
+      [
+        `Pre-checks failed for ${failures.length} of ${allocations.length} accounts, so nothing was sent:`,
+        ...failures.map(
+          (failure) =>
+            `  ${failure.accountName}: ${failure.code}: ${failure.error}`
+        ),
+      ].join("\n"),
+      { tokenAddress, failures }
+    );
+  }
+
+  return signers;
+}
+
+/**
+ * Runs the tasks with at most `limit` in flight, keeping results in order.
+ */
+async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+) {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, () => worker())
+  );
+  return results;
+}
+
+export async function batchBuy(
+  tokenAddress: string,
+  request: {
+    allocations?: BatchBuyAllocation[];
+    accountNames?: string[];
+    totalSol?: number;
+  },
+  slippageBasisPoints: number = 100,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+  priorityFeeOptions: PriorityFeeOptions = {}
+) {
+  try {
+    if (
+      !Number.isInteger(concurrency) ||
+      concurrency < 1 ||
+      concurrency > MAX_BATCH_CONCURRENCY
+    ) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `concurrency must be a whole number from 1 to ${MAX_BATCH_CONCURRENCY}`,
+        { concurrency }
+      );
+    }
+
+    const allocations = resolveAllocations(request);
+    const client = initializeSDK();
+    const signers = await precheckBatchBuy(
+      client,
+      tokenAddress,
+      allocations,
+      slippageBasisPoints
+    );
+
+    const entries = await runWithConcurrency(
+      allocations.map((allocation) => async (): Promise<BatchBuyEntry> => {
+        const publicKey = signers.get(allocation.accountName)!.publicKey;
+        const result = await buyToken(
+          tokenAddress,
+          allocation.amountSol,
+          allocation.accountName,
+          slippageBasisPoints,
+          false,
+          priorityFeeOptions,
+          client
+        );
+
+        if (!result.success) {
+          return {
+            ...allocation,
+            publicKey: publicKey.toString(),
+            status: "failed",
+            error: result.error,
+            code: result.code,
+            retryable: result.retryable,
+          };
+        }
+
+        return {
+          ...allocation,
+          publicKey: publicKey.toString(),
+          status: "filled",
+          signature: result.signature,
+          tokensPurchased: result.tokensPurchased,
+        };
+      }),
+      concurrency
+    );
+
+    const filled = entries.filter((entry) => entry.status === "filled");
+
+    return {
+      success: true as const,
+      tokenAddress,
+      entries,
+      filledCount: filled.length,
+      failedCount: entries.length - filled.length,
+      totalSolSpent: sumSol(filled),
+      totalTokensPurchased: filled.reduce(
+        (total, entry) => total + (entry.tokensPurchased || 0),
+        0
+      ),
+      pumpfunUrl: `https://pump.fun/${tokenAddress}`,
+    };
+  } catch (error: any) {
+    console.error("Error in batch buy:", error);
+    return errorResult(error, { tokenAddress });
+  }
+}
+
+export function formatBatchBuyResult(
+  result: ReturnType<typeof batchBuy> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error in batch buy: ${result.error}`;
+  }
+
+  const lines = [
+    result.failedCount === 0
+      ? `Batch buy complete: all ${result.entries.length} buys filled`
+      : `Batch buy partially failed: ${result.filledCount} of ${result.entries.length} buys filled, ${result.failedCount} failed`,
+    `Token Address: ${result.tokenAddress}`,
+    `Total Spent: ${result.totalSolSpent} SOL`,
+    `Total Tokens Purchased: ${result.totalTokensPurchased}`,
+    ``,
+    `Account | SOL | Status | Tokens | Signature or Error`,
+  ];
+
+  for (const entry of result.entries) {
+    lines.push(
+      entry.status === "filled"
+        ? `${entry.accountName} | ${entry.amountSol} | filled | ${entry.tokensPurchased} | ${entry.signature}`
+        : `${entry.accountName} | ${entry.amountSol} | failed | - | ${
+            entry.code
+          }${entry.retryable ? " (retryable)" : ""}: ${entry.error}`
+    );
+  }
+
+  lines.push(``, `Pump.fun URL: ${result.pumpfunUrl}`);
+  return lines.join("\n");
+}
+
+export const batchBuyOutputSchema = {
+  tokenAddress: z.string(),
+  entries: z.array(
+    z.object({
+      accountName: z.string(),
+      publicKey: z.string(),
+      amountSol: z.string(),
+      status: z.enum(["filled", "failed"]),
+      signature: z.string().optional(),
+      tokensPurchased: z.string().optional(),
+      error: z.string().optional(),
+      code: z.string().optional(),
+      retryable: z.boolean().optional(),
+    })
+  ),
+  filledCount: z.number(),
+  failedCount: z.number(),
+  totalSolSpent: z.string(),
+  totalTokensPurchased: z.string(),
+  pumpfunUrl: z.string(),
+};
+
+export function toBatchBuyStructuredContent(
+  result: Extract<
+    ReturnType<typeof batchBuy> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    entries: result.entries.map((entry) => ({
+      ...entry,
+      amountSol: String(entry.amountSol),
+      tokensPurchased:
+        entry.tokensPurchased !== undefined
+          ? String(entry.tokensPurchased)
+          : undefined,
+    })),
+    filledCount: result.filledCount,
+    failedCount: result.failedCount,
+    totalSolSpent: String(result.totalSolSpent),
+    totalTokensPurchased: String(result.totalTokensPurchased),
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 2) {
+    console.error(
+      "Usage: node batch-buy.js <token_address> <account:amount_sol,...> [slippage_basis_points]"
+    );
+    console.error(
+      "   or: node batch-buy.js <token_address> <account,...> <total_sol> [slippage_basis_points]"
+    );
+    console.error(
+      "Example: node batch-buy.js G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump alice:0.1,bob:0.2"
+    );
+    process.exit(1);
+  }
+
+  const tokenAddress = args[0];
+  const accounts = args[1].split(",");
+  const split = !accounts[0].includes(":");
+  const request = split
+    ? { accountNames: accounts, totalSol: parseFloat(args[2]) }
+    : {
+        allocations: accounts.map((account) => {
+          const [accountName, amountSol] = account.split(":");
+          return { accountName, amountSol: parseFloat(amountSol) };
+        }),
+      };
+  const slippage = split ? args[3] : args[2];
+
+  try {
+    const result = await batchBuy(
+      tokenAddress,
+      request,
+      slippage ? parseInt(slippage) : 100
+    );
+
+    console.log("\nResult:");
+    const formattedResult = formatBatchBuyResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  batchBuy,
+  resolveAllocations,
+  formatBatchBuyResult,
+  toBatchBuyStructuredContent,
+};
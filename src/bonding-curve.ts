@@ -0,0 +1,223 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  BondingCurveAccount,
+  GlobalAccount,
+  DEFAULT_DECIMALS,
+  calculateWithSlippageBuy,
+  calculateWithSlippageSell,
+} from "pumpdotfun-sdk";
+
+const TOKEN_UNITS = Math.pow(10, DEFAULT_DECIMALS);
+const BASIS_POINTS = 10000n;
+
+export function lamportsToSol(lamports: bigint | number) {
+  return Number(lamports) / LAMPORTS_PER_SOL;
+}
+
+export function solToLamports(sol: number) {
+  return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+}
+
+export function tokenUnitsToAmount(units: bigint | number) {
+  return Number(units) / TOKEN_UNITS;
+}
+
+export function amountToTokenUnits(amount: number) {
+  return BigInt(Math.round(amount * TOKEN_UNITS));
+}
+
+export function getPriceFromReserves(
+  virtualSolReserves: bigint,
+  virtualTokenReserves: bigint
+) {
+  if (virtualTokenReserves === 0n) {
+    return 0;
+  }
+
+  return (
+    lamportsToSol(virtualSolReserves) / tokenUnitsToAmount(virtualTokenReserves)
+  );
+}
+
+export function getSpotPrice(bondingCurve: BondingCurveAccount) {
+  return getPriceFromReserves(
+    bondingCurve.virtualSolReserves,
+    bondingCurve.virtualTokenReserves
+  );
+}
+
+export function getPriceImpactPercent(
+  effectivePrice: number,
+  spotPrice: number
+) {
+  if (spotPrice === 0) {
+    return 0;
+  }
+
+  return (Math.abs(effectivePrice - spotPrice) / spotPrice) * 100;
+}
+
+export function getGraduationProgressPercent(
+  bondingCurve: BondingCurveAccount,
+  globalAccount: GlobalAccount
+) {
+  if (bondingCurve.complete) {
+    return 100;
+  }
+
+  const initialRealTokenReserves = globalAccount.initialRealTokenReserves;
+  if (initialRealTokenReserves === 0n) {
+    return 0;
+  }
+
+  const tokensSold = initialRealTokenReserves - bondingCurve.realTokenReserves;
+  return (Number(tokensSold) / Number(initialRealTokenReserves)) * 100;
+}
+
+export function getCurveState(
+  bondingCurve: BondingCurveAccount,
+  globalAccount: GlobalAccount
+) {
+  return {
+    spotPrice: getSpotPrice(bondingCurve),
+    marketCapSol: lamportsToSol(bondingCurve.getMarketCapSOL()),
+    realSolReserves: lamportsToSol(bondingCurve.realSolReserves),
+    tokensRemaining: tokenUnitsToAmount(bondingCurve.realTokenReserves),
+    graduationProgressPercent: getGraduationProgressPercent(
+      bondingCurve,
+      globalAccount
+    ),
+    complete: bondingCurve.complete,
+  };
+}
+
+/**
+ * The curve a new token starts with, before its first buy.
+ */
+export function getInitialBondingCurve(globalAccount: GlobalAccount) {
+  return new BondingCurveAccount(
+    0n,
+    globalAccount.initialVirtualTokenReserves,
+    globalAccount.initialVirtualSolReserves,
+    globalAccount.initialRealTokenReserves,
+    0n,
+    globalAccount.tokenTotalSupply,
+    false
+  );
+}
+
+/**
+ * Returns the tokens a buy receives and the curve after it lands, for pricing
+ * buys that are sent together before the curve exists on chain.
+ */
+export function applyBuy(bondingCurve: BondingCurveAccount, solAmount: bigint) {
+  const tokensOut = bondingCurve.getBuyPrice(solAmount);
+
+  return {
+    tokensOut,
+    bondingCurve: new BondingCurveAccount(
+      bondingCurve.discriminator,
+      bondingCurve.virtualTokenReserves - tokensOut,
+      bondingCurve.virtualSolReserves + solAmount,
+      bondingCurve.realTokenReserves - tokensOut,
+      bondingCurve.realSolReserves + solAmount,
+      bondingCurve.tokenTotalSupply,
+      bondingCurve.complete
+    ),
+  };
+}
+
+export function calculateBuyQuote(
+  bondingCurve: BondingCurveAccount,
+  globalAccount: GlobalAccount,
+  solAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  const tokensOut = bondingCurve.getBuyPrice(solAmount);
+  const minTokensOut = calculateWithSlippageSell(
+    tokensOut,
+    slippageBasisPoints
+  );
+  const maxSolCost = calculateWithSlippageBuy(solAmount, slippageBasisPoints);
+  const protocolFee = (solAmount * globalAccount.feeBasisPoints) / BASIS_POINTS;
+
+  const spotPrice = getSpotPrice(bondingCurve);
+  const effectivePrice =
+    tokensOut > 0n
+      ? lamportsToSol(solAmount) / tokenUnitsToAmount(tokensOut)
+      : 0;
+
+  const newVirtualSolReserves = bondingCurve.virtualSolReserves + solAmount;
+  const newVirtualTokenReserves = bondingCurve.virtualTokenReserves - tokensOut;
+
+  return {
+    tokensOut,
+    minTokensOut,
+    maxSolCost,
+    protocolFee,
+    spotPrice,
+    effectivePrice,
+    priceImpactPercent: getPriceImpactPercent(effectivePrice, spotPrice),
+    priceAfter: getPriceFromReserves(
+      newVirtualSolReserves,
+      newVirtualTokenReserves
+    ),
+  };
+}
+
+export function calculateSellQuote(
+  bondingCurve: BondingCurveAccount,
+  globalAccount: GlobalAccount,
+  tokenAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  if (bondingCurve.complete) {
+    throw new Error("Curve is complete");
+  }
+
+  const grossSolOut =
+    tokenAmount > 0n
+      ? (tokenAmount * bondingCurve.virtualSolReserves) /
+        (bondingCurve.virtualTokenReserves + tokenAmount)
+      : 0n;
+  const protocolFee =
+    (grossSolOut * globalAccount.feeBasisPoints) / BASIS_POINTS;
+  const solOut = grossSolOut - protocolFee;
+  const minSolOut = calculateWithSlippageSell(solOut, slippageBasisPoints);
+
+  const spotPrice = getSpotPrice(bondingCurve);
+  const effectivePrice =
+    tokenAmount > 0n
+      ? lamportsToSol(grossSolOut) / tokenUnitsToAmount(tokenAmount)
+      : 0;
+
+  const newVirtualSolReserves = bondingCurve.virtualSolReserves - grossSolOut;
+  const newVirtualTokenReserves =
+    bondingCurve.virtualTokenReserves + tokenAmount;
+
+  return {
+    grossSolOut,
+    solOut,
+    minSolOut,
+    protocolFee,
+    spotPrice,
+    effectivePrice,
+    priceImpactPercent: getPriceImpactPercent(effectivePrice, spotPrice),
+    priceAfter: getPriceFromReserves(
+      newVirtualSolReserves,
+      newVirtualTokenReserves
+    ),
+  };
+}
+
+export function calculateNetworkFee(priorityFees: {
+  unitLimit: number;
+  unitPrice: number;
+}) {
+  const baseFee = 5000n;
+  const priorityFee =
+    (BigInt(priorityFees.unitLimit) * BigInt(priorityFees.unitPrice)) /
+    1000000n;
+
+  return { baseFee, priorityFee };
+}
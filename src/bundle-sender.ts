@@ -0,0 +1,297 @@
+import {
+  Connection,
+  Finality,
+  PublicKey,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  decodeTransactionError,
+  formatProgramError,
+} from "./program-errors.js";
+import {
+  MAX_CONFIRM_WAIT_MS,
+  SendResult,
+  fetchTransaction,
+  isCommitted,
+} from "./send-transaction.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const DEFAULT_BLOCK_ENGINE_URL = "https://mainnet.block-engine.jito.wtf";
+const DEFAULT_TIP_LAMPORTS = 100000;
+const JITO_MAX_TRANSACTIONS = 5;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Submits the transactions of a bundle in order. Senders that need a tip to
+ * include a bundle expose the account to pay it to, and the bundle builder
+ * adds the transfer to the first transaction.
+ */
+export type BundleSender = {
+  name: string;
+  maxTransactions: number;
+  tipLamports: number;
+  getTipAccount?: () => Promise<PublicKey>;
+  sendBundle: (
+    connection: Connection,
+    transactions: VersionedTransaction[]
+  ) => Promise<string>;
+};
+
+let bundleSenderOverride: BundleSender | null = null;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function getSignature(transaction: VersionedTransaction) {
+  return bs58.encode(transaction.signatures[0]);
+}
+
+async function callBlockEngine(url: string, method: string, params: unknown[]) {
+  const response = await fetch(`${url}/api/v1/bundles`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Block engine ${method} failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(
+      `Block engine ${method} failed: ${body.error.message || body.error}`
+    );
+  }
+  return body.result;
+}
+
+/**
+ * Sends bundles to a Jito block engine, which lands all of their transactions
+ * in order in the same slot or none of them.
+ */
+export function createJitoBundleSender(
+  url: string = DEFAULT_BLOCK_ENGINE_URL,
+  tipLamports: number = DEFAULT_TIP_LAMPORTS
+): BundleSender {
+  return {
+    name: "jito",
+    maxTransactions: JITO_MAX_TRANSACTIONS,
+    tipLamports,
+    async getTipAccount() {
+      const accounts: string[] = await callBlockEngine(
+        url,
+        "getTipAccounts",
+        []
+      );
+      if (!accounts?.length) {
+        throw new Error("Block engine returned no tip accounts");
+      }
+      return new PublicKey(
+        accounts[Math.floor(Math.random() * accounts.length)]
+      );
+    },
+    async sendBundle(connection, transactions) {
+      return callBlockEngine(url, "sendBundle", [
+        transactions.map((transaction) =>
+          Buffer.from(transaction.serialize()).toString("base64")
+        ),
+        { encoding: "base64" },
+      ]);
+    },
+  };
+}
+
+/**
+ * A stand-in for a block engine that sends the transactions through the RPC
+ * one after another, waiting for each to be processed before sending the
+ * next. Nothing makes the legs atomic, so it is meant for devnet, local
+ * validators and tests rather than real launches.
+ */
+export function createLocalBundleSender(): BundleSender {
+  return {
+    name: "local",
+    maxTransactions: Number.MAX_SAFE_INTEGER,
+    tipLamports: 0,
+    async sendBundle(connection, transactions) {
+      for (const transaction of transactions) {
+        const signature = await connection.sendRawTransaction(
+          transaction.serialize(),
+          { skipPreflight: true, maxRetries: 5 }
+        );
+
+        const deadline = Date.now() + 60000;
+        while (Date.now() < deadline) {
+          const { value } = await connection.getSignatureStatuses([signature]);
+          if (value[0]) {
+            break;
+          }
+          await sleep(500);
+        }
+      }
+
+      return `local-${getSignature(transactions[0])}`;
+    },
+  };
+}
+
+/**
+ * Replaces the configured sender, for example with a stand-in in tests. Pass
+ * null to go back to the configured one.
+ */
+export function setBundleSender(sender: BundleSender | null) {
+  bundleSenderOverride = sender;
+}
+
+export function getBundleSender(): BundleSender {
+  if (bundleSenderOverride) {
+    return bundleSenderOverride;
+  }
+
+  const sender = process.env.BUNDLE_SENDER || "jito";
+  if (sender === "local") {
+    return createLocalBundleSender();
+  }
+  if (sender !== "jito") {
+    throw new Error(`BUNDLE_SENDER must be "jito" or "local", got "${sender}"`);
+  }
+
+  const tipLamports = Number(
+    process.env.BUNDLE_TIP_LAMPORTS || DEFAULT_TIP_LAMPORTS
+  );
+  if (!Number.isInteger(tipLamports) || tipLamports < 0) {
+    throw new Error(
+      `BUNDLE_TIP_LAMPORTS must be a non-negative integer, got "${process.env.BUNDLE_TIP_LAMPORTS}"`
+    );
+  }
+
+  return createJitoBundleSender(
+    process.env.JITO_BLOCK_ENGINE_URL || DEFAULT_BLOCK_ENGINE_URL,
+    tipLamports
+  );
+}
+
+/**
+ * Waits until every transaction of a bundle has landed or failed, or until
+ * the shared blockhash expires. Results are in the same order as the
+ * transactions and use the same shape as sendAndConfirm, including the
+ * "unknown" status for transactions the RPC could not report on in time.
+ */
+export async function confirmBundle(
+  connection: Connection,
+  transactions: VersionedTransaction[],
+  lastValidBlockHeight: number,
+  commitment: Finality
+): Promise<SendResult[]> {
+  const signatures = transactions.map(getSignature);
+  const results: (SendResult | undefined)[] = signatures.map(() => undefined);
+
+  const deadline = Date.now() + MAX_CONFIRM_WAIT_MS;
+  let lastRpcError: string | undefined;
+  while (results.some((result) => !result) && Date.now() < deadline) {
+    try {
+      const pending = signatures.filter((_, index) => !results[index]);
+      const { value: statuses } = await connection.getSignatureStatuses(
+        pending,
+        { searchTransactionHistory: true }
+      );
+
+      for (const [position, status] of statuses.entries()) {
+        const index = signatures.indexOf(pending[position]);
+        const signature = signatures[index];
+
+        if (status?.err) {
+          const details = await fetchTransaction(
+            connection,
+            signature,
+            "confirmed"
+          );
+          const programError = decodeTransactionError(
+            status.err,
+            transactions[index].message
+          );
+          results[index] = {
+            status: "failed",
+            signature,
+            error: formatProgramError(programError),
+            programError,
+            logs: details?.meta?.logMessages || undefined,
+            transaction: details,
+            attempts: 1,
+          };
+        } else if (isCommitted(status, commitment)) {
+          results[index] = {
+            status: "confirmed",
+            signature,
+            transaction: await fetchTransaction(
+              connection,
+              signature,
+              commitment
+            ),
+            attempts: 1,
+          };
+        }
+      }
+
+      if (results.every((result) => result)) {
+        break;
+      }
+
+      const blockHeight = await connection.getBlockHeight(commitment);
+      if (blockHeight > lastValidBlockHeight) {
+        const { value: finalStatuses } = await connection.getSignatureStatuses(
+          signatures,
+          { searchTransactionHistory: true }
+        );
+        // A transaction seen after expiry still landed; wait for its commitment
+        if (finalStatuses.every((status, index) => results[index] || !status)) {
+          signatures.forEach((signature, index) => {
+            results[index] ??= {
+              status: "expired",
+              signature,
+              error:
+                "Blockhash expired before the bundle was confirmed. This transaction did not land.",
+              attempts: 1,
+            };
+          });
+          break;
+        }
+      }
+    } catch (error: any) {
+      lastRpcError = error?.message || "Unknown error";
+      console.error("Error checking bundle status:", error);
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  signatures.forEach((signature, index) => {
+    results[index] ??= {
+      status: "unknown",
+      signature,
+      error: `Could not confirm the bundle within ${
+        MAX_CONFIRM_WAIT_MS / 1000
+      } seconds${
+        lastRpcError ? ` (last RPC error: ${lastRpcError})` : ""
+      }. It may still land; check the signature before trying again.`,
+      attempts: 1,
+    };
+  });
+
+  return results as SendResult[];
+}
+
+export default {
+  createJitoBundleSender,
+  createLocalBundleSender,
+  setBundleSender,
+  getBundleSender,
+  confirmBundle,
+};
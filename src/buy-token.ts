@@ -1,45 +1,56 @@
 import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
 import { initializeSDK, createMcpResponse } from "./get-token-info.js";
-import { getOrCreateKeypair, getSPLBalance, rootDir } from "./utils.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { resolveAccount } from "./list-accounts.js";
+import { recordTrade } from "./trade-journal.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import { sendAndConfirm, toSendError } from "./send-transaction.js";
+import { simulateTransaction, toSimulationError } from "./simulate-trade.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { reserveSpending } from "./spending-policy.js";
+import { solToLamports } from "./bonding-curve.js";
+import {
+  formatVenue,
+  getPoolBuyTransaction,
+  resolveTradingVenue,
+  venueOutputSchema,
+} from "./pump-swap.js";
 import path from "path";
-import fs from "fs";
 import dotenv from "dotenv";
+import { z } from "zod";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
-const DEFAULT_PRIORITY_FEES = {
-  unitLimit: 250000,
-  unitPrice: 250000,
-};
-
 export async function buyToken(
   tokenAddress: string,
   buyAmount: number,
   accountName: string = "default",
-  slippageBasisPoints: number = 100
+  slippageBasisPoints: number = 100,
+  createAccountIfMissing: boolean = false,
+  priorityFeeOptions: PriorityFeeOptions = {},
+  client?: ReturnType<typeof initializeSDK>
 ) {
+  let releaseSpending = () => {};
   try {
-    const { sdk, connection } = initializeSDK();
-
-    const keysFolder = path.resolve(rootDir, ".keys");
-
-    if (!fs.existsSync(keysFolder)) {
-      try {
-        fs.mkdirSync(keysFolder, { recursive: true });
-      } catch (mkdirError: any) {
-        console.error(`Error creating keys folder:`, mkdirError);
-        return {
-          success: false,
-          error: `Error creating keys folder: ${
-            mkdirError.message || JSON.stringify(mkdirError)
-          }`,
-        };
-      }
-    }
+    const { sdk, connection } = client || initializeSDK();
 
-    const account = getOrCreateKeypair(keysFolder, accountName);
+    const account = await resolveAccount(accountName, createAccountIfMissing);
     console.log(`Using account: ${account.publicKey.toString()}`);
 
+    releaseSpending = reserveSpending({
+      accountName,
+      publicKey: account.publicKey,
+      side: "buy",
+      mint: tokenAddress,
+      solAmount: buyAmount,
+      slippageBasisPoints,
+    });
+
     const balance = await connection.getBalance(account.publicKey);
     console.log(`Account balance: ${balance / LAMPORTS_PER_SOL} SOL`);
 
@@ -54,7 +65,13 @@ export async function buyToken(
         requiredBalance / LAMPORTS_PER_SOL
       } SOL. Please send SOL to this address and try again.`;
       console.error(errorMessage);
-      return { success: false, error: errorMessage };
+      return errorResult(
+        new PumpfunError("INSUFFICIENT_SOL", errorMessage, {
+          publicKey: account.publicKey.toString(),
+          balance: balance / LAMPORTS_PER_SOL,
+          required: requiredBalance / LAMPORTS_PER_SOL,
+        })
+      );
     }
 
     const mintPublicKey = new PublicKey(tokenAddress);
@@ -64,24 +81,59 @@ export async function buyToken(
       (await getSPLBalance(connection, mintPublicKey, account.publicKey)) || 0;
     console.log(`Initial token balance: ${initialTokenBalance}`);
 
+    const venue = await resolveTradingVenue(sdk, connection, mintPublicKey);
+    console.error(`Venue: ${formatVenue(venue.venue)}`);
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      [venue.address]
+    );
+    console.error(`Priority fee: ${formatPriorityFees(priorityFees)}`);
+
     console.log(`Buying ${buyAmount} SOL worth of tokens...`);
-    const result = await sdk.buy(
-      account,
-      mintPublicKey,
-      BigInt(buyAmount * LAMPORTS_PER_SOL),
-      BigInt(slippageBasisPoints),
-      DEFAULT_PRIORITY_FEES
+    const buyLamports = solToLamports(buyAmount);
+    const transaction =
+      venue.venue === "pumpswap"
+        ? await getPoolBuyTransaction(
+            connection,
+            venue.address,
+            account.publicKey,
+            buyLamports,
+            BigInt(slippageBasisPoints)
+          )
+        : await sdk.getBuyInstructionsBySolAmount(
+            account.publicKey,
+            mintPublicKey,
+            buyLamports,
+            BigInt(slippageBasisPoints)
+          );
+    const simulation = await simulateTransaction(
+      connection,
+      transaction,
+      account.publicKey,
+      priorityFees,
+      mintPublicKey
+    );
+    if (!simulation.ok) {
+      console.error(`Simulation failed:`, simulation.error);
+      return errorResult(toSimulationError(simulation, { tokenAddress }));
+    }
+    console.error(`Simulation used ${simulation.unitsConsumed} compute units`);
+
+    const result = await sendAndConfirm(
+      connection,
+      transaction,
+      account.publicKey,
+      [account],
+      priorityFees
     );
 
-    if (!result.success) {
+    if (result.status !== "confirmed") {
       console.error(`Failed to buy token:`, result.error);
       return {
-        success: false,
-        error: result.error
-          ? typeof result.error === "object"
-            ? JSON.stringify(result.error)
-            : result.error
-          : "Unknown error",
+        ...errorResult(toSendError(result, { tokenAddress })),
+        status: result.status,
       };
     }
 
@@ -93,37 +145,32 @@ export async function buyToken(
     const tokensPurchased = newTokenBalance - initialTokenBalance;
     console.log(`Tokens purchased: ${tokensPurchased}`);
 
+    await recordTrade(sdk, {
+      accountName,
+      publicKey: account.publicKey,
+      mint: tokenAddress,
+      side: "buy",
+      signature: result.signature,
+      transaction: result.transaction,
+      fallback: { solAmount: buyAmount, tokenAmount: tokensPurchased },
+    });
+
     return {
-      success: true,
+      success: true as const,
       tokenAddress,
       amountSpent: buyAmount,
       tokensPurchased,
       newBalance: newTokenBalance,
+      venue: venue.venue,
+      priorityFees,
       signature: result.signature,
       pumpfunUrl: `https://pump.fun/${tokenAddress}`,
     };
   } catch (error: any) {
     console.error("Error buying token:", error);
-    console.error("Error stack:", error.stack);
-
-    let errorMessage = "Unknown error";
-    if (error) {
-      if (typeof error === "object") {
-        if (error.message) {
-          errorMessage = error.message;
-        } else {
-          try {
-            errorMessage = JSON.stringify(error);
-          } catch (e) {
-            errorMessage = "Error object could not be stringified";
-          }
-        }
-      } else {
-        errorMessage = String(error);
-      }
-    }
-
-    return { success: false, error: errorMessage };
+    return errorResult(error, { tokenAddress, accountName });
+  } finally {
+    releaseSpending();
   }
 }
 
@@ -140,11 +187,42 @@ export function formatBuyResult(
     `Amount Spent: ${result.amountSpent} SOL`,
     `Tokens Purchased: ${result.tokensPurchased}`,
     `New Balance: ${result.newBalance}`,
+    `Venue: ${formatVenue(result.venue)}`,
+    `Priority Fee: ${formatPriorityFees(result.priorityFees)}`,
     `Transaction Signature: ${result.signature}`,
     `Pump.fun URL: ${result.pumpfunUrl}`,
   ].join("\n");
 }
 
+export const buyOutputSchema = {
+  tokenAddress: z.string(),
+  amountSpent: z.string().describe("SOL spent"),
+  tokensPurchased: z.string(),
+  newBalance: z.string(),
+  venue: venueOutputSchema,
+  priorityFees: priorityFeeOutputSchema,
+  signature: z.string().optional(),
+  pumpfunUrl: z.string(),
+};
+
+export function toBuyStructuredContent(
+  result: Extract<
+    ReturnType<typeof buyToken> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    amountSpent: String(result.amountSpent),
+    tokensPurchased: String(result.tokensPurchased),
+    newBalance: String(result.newBalance),
+    venue: result.venue,
+    priorityFees: result.priorityFees,
+    signature: result.signature,
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -208,4 +286,5 @@ if (isMainModule) {
 export default {
   buyToken,
   formatBuyResult,
+  toBuyStructuredContent,
 };
@@ -1,23 +1,125 @@
-import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  CreateTokenMetadata,
+  GLOBAL_ACCOUNT_SEED,
+  GlobalAccount,
+  PumpFunSDK,
+  calculateWithSlippageBuy,
+} from "pumpdotfun-sdk";
 import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { resolveAccount } from "./list-accounts.js";
+import { writeKeypairFile } from "./keystore.js";
+import { recordTrade } from "./trade-journal.js";
 import {
-  getOrCreateKeypair,
-  getSPLBalance,
-  rootDir,
-  safeStringify,
-} from "./utils.js";
+  PUMPFUN_PROGRAM_ID,
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import { sendAndConfirm, toSendError } from "./send-transaction.js";
+import { simulateTransaction, toSimulationError } from "./simulate-trade.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { reserveSpending } from "./spending-policy.js";
+import { solToLamports } from "./bonding-curve.js";
 import path from "path";
 import fs from "fs";
 import dotenv from "dotenv";
 import { Blob } from "buffer";
+import { z } from "zod";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
 const DEFAULT_SLIPPAGE_BASIS_POINTS = 100n;
-const DEFAULT_PRIORITY_FEES = {
-  unitLimit: 250000,
-  unitPrice: 250000,
-};
+
+export function buildTokenMetadata(
+  name: string,
+  symbol: string,
+  description: string,
+  imageUrl: string | undefined
+) {
+  let fileBlob: Blob | undefined;
+  if (imageUrl) {
+    const imageData = fs.readFileSync(imageUrl);
+    fileBlob = new Blob([imageData], { type: "image/png" });
+  }
+
+  const tokenMetadata: any = {
+    name,
+    symbol,
+    description,
+    file: fileBlob,
+  };
+  return tokenMetadata as CreateTokenMetadata;
+}
+
+/**
+ * Uploads the token metadata and builds the same create and initial buy
+ * instructions as sdk.createAndBuy, without sending them.
+ */
+export async function buildCreateAndBuyTransaction(
+  sdk: PumpFunSDK,
+  creator: PublicKey,
+  mint: Keypair,
+  tokenMetadata: CreateTokenMetadata,
+  buyAmountSol: bigint,
+  slippageBasisPoints: bigint
+) {
+  const metadata = await sdk.createTokenMetadata(tokenMetadata);
+  const transaction = await sdk.getCreateInstructions(
+    creator,
+    tokenMetadata.name,
+    tokenMetadata.symbol,
+    metadata.metadataUri,
+    mint
+  );
+
+  if (buyAmountSol > 0n) {
+    const globalAccount = await sdk.getGlobalAccount();
+    transaction.add(
+      await sdk.getBuyInstructions(
+        creator,
+        mint.publicKey,
+        globalAccount.feeRecipient,
+        globalAccount.getInitialBuyPrice(buyAmountSol),
+        calculateWithSlippageBuy(buyAmountSol, slippageBasisPoints)
+      )
+    );
+  }
+
+  return transaction;
+}
+
+/**
+ * The pump.fun accounts a create-and-buy writes to that exist before the mint
+ * does, so auto priority fees are estimated from their recent fees rather
+ * than from the program alone.
+ */
+export function getCreatePriorityFeeAccounts(globalAccount: GlobalAccount) {
+  const [globalAddress] = PublicKey.findProgramAddressSync(
+    [Buffer.from(GLOBAL_ACCOUNT_SEED)],
+    PUMPFUN_PROGRAM_ID
+  );
+  return [globalAddress, globalAccount.feeRecipient];
+}
+
+/**
+ * Keeps the keypair of a created token's mint in .keys. The token exists
+ * on-chain whether or not the write works, for example when the keystore is
+ * locked, so a failure is logged rather than failing the creation.
+ */
+export function saveMintKeypair(mint: Keypair) {
+  const tokenAddress = mint.publicKey.toString();
+  try {
+    writeKeypairFile(
+      path.join(rootDir, ".keys", `mint-${tokenAddress}.json`),
+      mint
+    );
+  } catch (error: any) {
+    console.error(`Could not save the mint keypair of ${tokenAddress}:`, error);
+  }
+}
 
 export async function createToken(
   name: string,
@@ -25,63 +127,101 @@ export async function createToken(
   description: string,
   imageUrl: string | undefined,
   initialBuyAmount: number,
-  accountName: string = "default"
+  accountName: string = "default",
+  createAccountIfMissing: boolean = false,
+  priorityFeeOptions: PriorityFeeOptions = {}
 ) {
+  let releaseSpending = () => {};
   try {
     const { sdk, connection } = initializeSDK();
-    const keysFolder = path.resolve(rootDir, ".keys");
 
-    const account = getOrCreateKeypair(keysFolder, accountName);
+    const account = await resolveAccount(accountName, createAccountIfMissing);
+    releaseSpending = reserveSpending({
+      accountName,
+      publicKey: account.publicKey,
+      side: "create",
+      solAmount: initialBuyAmount,
+      slippageBasisPoints: Number(DEFAULT_SLIPPAGE_BASIS_POINTS),
+    });
+
     const balance = await connection.getBalance(account.publicKey);
     const requiredBalance =
       initialBuyAmount * LAMPORTS_PER_SOL + 0.003 * LAMPORTS_PER_SOL;
 
     if (balance < requiredBalance) {
-      return {
-        success: false,
-        error: `Insufficient SOL balance. Account ${account.publicKey.toString()} has ${
-          balance / LAMPORTS_PER_SOL
-        } SOL, but needs at least ${
-          requiredBalance / LAMPORTS_PER_SOL
-        } SOL. Please send SOL to this address and try again.`,
-      };
+      return errorResult(
+        new PumpfunError(
+          "INSUFFICIENT_SOL",
+          `Insufficient SOL balance. Account ${account.publicKey.toString()} has ${
+            balance / LAMPORTS_PER_SOL
+          } SOL, but needs at least ${
+            requiredBalance / LAMPORTS_PER_SOL
+          } SOL. Please send SOL to this address and try again.`,
+          {
+            publicKey: account.publicKey.toString(),
+            balance: balance / LAMPORTS_PER_SOL,
+            required: requiredBalance / LAMPORTS_PER_SOL,
+          }
+        )
+      );
     }
 
     const mint = Keypair.generate();
 
-    let fileBlob: Blob | undefined;
-    if (imageUrl) {
-      const imageData = fs.readFileSync(imageUrl);
-      fileBlob = new Blob([imageData], { type: "image/png" });
-    }
-
-    const tokenMetadata: any = {
+    const tokenMetadata = buildTokenMetadata(
       name,
       symbol,
       description,
-      file: fileBlob,
-    };
+      imageUrl
+    );
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      getCreatePriorityFeeAccounts(await sdk.getGlobalAccount())
+    );
 
-    const result = await sdk.createAndBuy(
-      account,
+    const transaction = await buildCreateAndBuyTransaction(
+      sdk,
+      account.publicKey,
       mint,
       tokenMetadata,
-      BigInt(initialBuyAmount * LAMPORTS_PER_SOL),
-      DEFAULT_SLIPPAGE_BASIS_POINTS,
-      DEFAULT_PRIORITY_FEES
+      solToLamports(initialBuyAmount),
+      DEFAULT_SLIPPAGE_BASIS_POINTS
+    );
+    const simulation = await simulateTransaction(
+      connection,
+      transaction,
+      account.publicKey,
+      priorityFees,
+      mint.publicKey
+    );
+    if (!simulation.ok) {
+      console.error(`Simulation failed:`, simulation.error);
+      return errorResult(
+        toSimulationError(simulation, { mint: mint.publicKey.toString() })
+      );
+    }
+    console.error(`Simulation used ${simulation.unitsConsumed} compute units`);
+
+    const result = await sendAndConfirm(
+      connection,
+      transaction,
+      account.publicKey,
+      [account, mint],
+      priorityFees
     );
 
-    if (!result.success) {
+    if (result.status !== "confirmed") {
       return {
-        success: false,
-        error: result.error || "Unknown error",
+        ...errorResult(
+          toSendError(result, { mint: mint.publicKey.toString() })
+        ),
+        status: result.status,
       };
     }
 
-    fs.writeFileSync(
-      path.join(keysFolder, `mint-${mint.publicKey.toString()}.json`),
-      safeStringify(Array.from(mint.secretKey))
-    );
+    saveMintKeypair(mint);
 
     const tokenBalance = await getSPLBalance(
       connection,
@@ -89,18 +229,31 @@ export async function createToken(
       account.publicKey
     );
 
+    await recordTrade(sdk, {
+      accountName,
+      publicKey: account.publicKey,
+      mint: mint.publicKey.toString(),
+      side: "create",
+      signature: result.signature,
+      transaction: result.transaction,
+      fallback: { solAmount: initialBuyAmount, tokenAmount: tokenBalance || 0 },
+    });
+
     return {
-      success: true,
+      success: true as const,
       tokenAddress: mint.publicKey.toString(),
       tokenName: name,
       tokenSymbol: symbol,
       tokenBalance,
+      priorityFees,
       signature: result.signature,
       pumpfunUrl: `https://pump.fun/${mint.publicKey.toString()}`,
     };
   } catch (error: any) {
     console.error("Error creating token:", error);
-    return { success: false, error: error?.message || "Unknown error" };
+    return errorResult(error, { accountName });
+  } finally {
+    releaseSpending();
   }
 }
 
@@ -117,11 +270,40 @@ export function formatCreateTokenResult(
     `Token Name: ${result.tokenName}`,
     `Token Symbol: ${result.tokenSymbol}`,
     `Your Balance: ${result.tokenBalance}`,
+    `Priority Fee: ${formatPriorityFees(result.priorityFees)}`,
     `Transaction Signature: ${result.signature}`,
     `Pump.fun URL: ${result.pumpfunUrl}`,
   ].join("\n");
 }
 
+export const createTokenOutputSchema = {
+  tokenAddress: z.string(),
+  tokenName: z.string(),
+  tokenSymbol: z.string(),
+  tokenBalance: z.string().nullable(),
+  priorityFees: priorityFeeOutputSchema,
+  signature: z.string().optional(),
+  pumpfunUrl: z.string(),
+};
+
+export function toCreateTokenStructuredContent(
+  result: Extract<
+    ReturnType<typeof createToken> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    tokenName: result.tokenName,
+    tokenSymbol: result.tokenSymbol,
+    tokenBalance:
+      result.tokenBalance !== null ? String(result.tokenBalance) : null,
+    priorityFees: result.priorityFees,
+    signature: result.signature,
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -180,4 +362,5 @@ if (isMainModule) {
 export default {
   createToken,
   formatCreateTokenResult,
+  toCreateTokenStructuredContent,
 };
@@ -0,0 +1,722 @@
+import { randomBytes } from "crypto";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { fetchVenuePrices } from "./get-portfolio.js";
+import { buyToken } from "./buy-token.js";
+import { resolveAddress } from "./list-accounts.js";
+import { dataFolder, ensureDataFolder } from "./trade-journal.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { rootDir } from "./utils.js";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const schedulesPath = path.join(dataFolder, "dca-schedules.json");
+
+const DEFAULT_POLL_INTERVAL_MS = 10000;
+const MIN_INTERVAL_MINUTES = 1;
+
+export type DcaScheduleStatus =
+  | "active"
+  | "paused"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+export type DcaExecutionStatus = "executing" | "filled" | "skipped" | "failed";
+
+export type DcaExecution = {
+  runAt: string;
+  status: DcaExecutionStatus;
+  price: number | null;
+  signature?: string;
+  amountSpent?: number;
+  tokensPurchased?: number;
+  error?: string;
+};
+
+export type DcaSchedule = {
+  id: string;
+  accountName: string;
+  tokenAddress: string;
+  amountSol: number;
+  intervalMinutes: number;
+  totalBuys: number;
+  maxPrice: number | null;
+  slippageBasisPoints: number;
+  status: DcaScheduleStatus;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string;
+  buysCompleted: number;
+  solSpent: number;
+  tokensPurchased: number;
+  executions: DcaExecution[];
+  lastError?: string;
+};
+
+export function readDcaSchedules(): DcaSchedule[] {
+  if (!fs.existsSync(schedulesPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(schedulesPath, "utf-8")) as DcaSchedule[];
+}
+
+function writeDcaSchedules(schedules: DcaSchedule[]) {
+  ensureDataFolder();
+  const temporaryPath = `${schedulesPath}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(schedules, null, 2));
+  fs.renameSync(temporaryPath, schedulesPath);
+}
+
+function findSchedule(schedules: DcaSchedule[], id: string) {
+  const schedule = schedules.find((schedule) => schedule.id === id);
+  if (!schedule) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `No DCA schedule with id ${id}. Use list-dca-schedules to see schedule ids.`,
+      { scheduleId: id }
+    );
+  }
+  return schedule;
+}
+
+/**
+ * Applies a change to one schedule by re-reading the file first, so updates
+ * from the watcher and from tools in between are not lost. `update` may also
+ * edit the schedule's latest execution in place.
+ */
+function updateDcaSchedule(
+  id: string,
+  update: (schedule: DcaSchedule) => void
+) {
+  const schedules = readDcaSchedules();
+  const schedule = findSchedule(schedules, id);
+  update(schedule);
+  schedule.updatedAt = new Date().toISOString();
+  writeDcaSchedules(schedules);
+  return schedule;
+}
+
+function addMinutes(time: number, minutes: number) {
+  return new Date(time + minutes * 60 * 1000).toISOString();
+}
+
+async function getCurrentPrice(tokenAddress: string) {
+  const { sdk, connection } = initializeSDK();
+  const current = (await fetchVenuePrices(sdk, connection, [tokenAddress])).get(
+    tokenAddress
+  );
+
+  if (!current) {
+    throw new PumpfunError(
+      "ACCOUNT_NOT_FOUND",
+      `No open bonding curve or PumpSwap pool found for token ${tokenAddress}`,
+      { tokenAddress }
+    );
+  }
+
+  return current.price;
+}
+
+export async function createDcaSchedule(
+  tokenAddress: string,
+  amountSol: number,
+  intervalMinutes: number,
+  totalBuys: number,
+  accountName: string = "default",
+  maxPrice?: number,
+  slippageBasisPoints: number = 100
+) {
+  try {
+    const account = await resolveAddress(accountName);
+    if (!account.accountName) {
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        `DCA schedules need a managed account, but ${accountName} is only an address`,
+        { accountName }
+      );
+    }
+
+    if (!(amountSol > 0)) {
+      throw new PumpfunError("INVALID_INPUT", "amountSol must be positive", {
+        amountSol,
+      });
+    }
+    if (intervalMinutes < MIN_INTERVAL_MINUTES) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `intervalMinutes must be at least ${MIN_INTERVAL_MINUTES}`,
+        { intervalMinutes }
+      );
+    }
+    if (!Number.isInteger(totalBuys) || totalBuys < 1) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "totalBuys must be a whole number of at least 1",
+        { totalBuys }
+      );
+    }
+    if (maxPrice !== undefined && !(maxPrice > 0)) {
+      throw new PumpfunError("INVALID_INPUT", "maxPrice must be positive", {
+        maxPrice,
+      });
+    }
+
+    const currentPrice = await getCurrentPrice(tokenAddress);
+
+    const now = new Date().toISOString();
+    const schedule: DcaSchedule = {
+      id: randomBytes(6).toString("hex"),
+      accountName,
+      tokenAddress,
+      amountSol,
+      intervalMinutes,
+      totalBuys,
+      maxPrice: maxPrice ?? null,
+      slippageBasisPoints,
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+      nextRunAt: now,
+      buysCompleted: 0,
+      solSpent: 0,
+      tokensPurchased: 0,
+      executions: [],
+    };
+
+    writeDcaSchedules([...readDcaSchedules(), schedule]);
+
+    return { success: true as const, schedule, currentPrice };
+  } catch (error: any) {
+    console.error("Error creating DCA schedule:", error);
+    return errorResult(error, { tokenAddress, accountName });
+  }
+}
+
+export async function listDcaSchedules(
+  filters: {
+    accountName?: string;
+    tokenAddress?: string;
+    status?: DcaScheduleStatus | "all";
+  } = {}
+) {
+  try {
+    const status = filters.status || "all";
+    const schedules = readDcaSchedules().filter(
+      (schedule) =>
+        (!filters.accountName ||
+          schedule.accountName === filters.accountName) &&
+        (!filters.tokenAddress ||
+          schedule.tokenAddress === filters.tokenAddress) &&
+        (status === "all" || schedule.status === status)
+    );
+
+    return { success: true as const, status, schedules };
+  } catch (error: any) {
+    console.error("Error listing DCA schedules:", error);
+    return errorResult(error);
+  }
+}
+
+export async function pauseDcaSchedule(id: string) {
+  try {
+    const schedule = findSchedule(readDcaSchedules(), id);
+    if (schedule.status !== "active") {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `DCA schedule ${id} is ${schedule.status} and cannot be paused`,
+        { scheduleId: id, status: schedule.status }
+      );
+    }
+
+    return {
+      success: true as const,
+      schedule: updateDcaSchedule(id, (schedule) => {
+        schedule.status = "paused";
+      }),
+    };
+  } catch (error: any) {
+    console.error("Error pausing DCA schedule:", error);
+    return errorResult(error, { scheduleId: id });
+  }
+}
+
+export async function resumeDcaSchedule(id: string) {
+  try {
+    const schedule = findSchedule(readDcaSchedules(), id);
+    if (schedule.status !== "paused") {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `DCA schedule ${id} is ${schedule.status} and cannot be resumed`,
+        { scheduleId: id, status: schedule.status }
+      );
+    }
+
+    return {
+      success: true as const,
+      schedule: updateDcaSchedule(id, (schedule) => {
+        schedule.status = "active";
+        schedule.lastError = undefined;
+        if (Date.parse(schedule.nextRunAt) < Date.now()) {
+          schedule.nextRunAt = new Date().toISOString();
+        }
+      }),
+    };
+  } catch (error: any) {
+    console.error("Error resuming DCA schedule:", error);
+    return errorResult(error, { scheduleId: id });
+  }
+}
+
+export async function cancelDcaSchedule(id: string) {
+  try {
+    const schedule = findSchedule(readDcaSchedules(), id);
+    if (schedule.status !== "active" && schedule.status !== "paused") {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `DCA schedule ${id} is ${schedule.status} and cannot be cancelled`,
+        { scheduleId: id, status: schedule.status }
+      );
+    }
+
+    return {
+      success: true as const,
+      schedule: updateDcaSchedule(id, (schedule) => {
+        schedule.status = "cancelled";
+      }),
+    };
+  } catch (error: any) {
+    console.error("Error cancelling DCA schedule:", error);
+    return errorResult(error, { scheduleId: id });
+  }
+}
+
+function latestExecution(schedule: DcaSchedule) {
+  return schedule.executions[schedule.executions.length - 1];
+}
+
+/**
+ * Runs one scheduled buy. The next run time is moved forward and an
+ * executing record is written before buyToken is called, so a restart in the
+ * middle of a buy never sends it twice.
+ */
+async function executeDcaBuy(schedule: DcaSchedule, price: number) {
+  const runAt = Date.now();
+  updateDcaSchedule(schedule.id, (schedule) => {
+    schedule.nextRunAt = addMinutes(runAt, schedule.intervalMinutes);
+    schedule.executions.push({
+      runAt: new Date(runAt).toISOString(),
+      status: "executing",
+      price,
+    });
+  });
+  console.error(
+    `DCA schedule ${schedule.id}: buying ${schedule.amountSol} SOL of ${schedule.tokenAddress} at ${price} SOL`
+  );
+
+  const result = await buyToken(
+    schedule.tokenAddress,
+    schedule.amountSol,
+    schedule.accountName,
+    schedule.slippageBasisPoints
+  );
+
+  if (result.success) {
+    return updateDcaSchedule(schedule.id, (schedule) => {
+      Object.assign(latestExecution(schedule), {
+        status: "filled",
+        signature: result.signature,
+        amountSpent: result.amountSpent,
+        tokensPurchased: result.tokensPurchased,
+      });
+      schedule.buysCompleted += 1;
+      schedule.solSpent += result.amountSpent;
+      schedule.tokensPurchased += result.tokensPurchased;
+      schedule.lastError = undefined;
+      if (
+        schedule.status === "active" &&
+        schedule.buysCompleted >= schedule.totalBuys
+      ) {
+        schedule.status = "completed";
+      }
+    });
+  }
+
+  console.error(
+    `DCA schedule ${schedule.id} buy failed (${result.code}), ${
+      result.retryable ? "will retry next interval" : "pausing"
+    }: ${result.error}`
+  );
+  return updateDcaSchedule(schedule.id, (schedule) => {
+    Object.assign(latestExecution(schedule), {
+      status: "failed",
+      error: `${result.code}: ${result.error}`,
+    });
+    schedule.lastError = `${result.code}: ${result.error}`;
+    if (!result.retryable && schedule.status === "active") {
+      schedule.status = "paused";
+    }
+  });
+}
+
+/**
+ * Runs every active schedule that is due. A run is skipped when the price is
+ * above the schedule's ceiling, and a failed run pauses the schedule unless
+ * the error is retryable; neither counts towards totalBuys. Schedules on
+ * graduated tokens keep buying from the PumpSwap pool; a completed curve whose
+ * pool is not there yet is left due until the next poll.
+ */
+export async function checkDcaSchedules(now: number = Date.now()) {
+  const schedules = readDcaSchedules().filter(
+    (schedule) =>
+      schedule.status === "active" && Date.parse(schedule.nextRunAt) <= now
+  );
+  if (schedules.length === 0) {
+    return [];
+  }
+
+  const { sdk, connection } = initializeSDK();
+  const prices = await fetchVenuePrices(
+    sdk,
+    connection,
+    Array.from(new Set(schedules.map((schedule) => schedule.tokenAddress)))
+  );
+
+  const executed: DcaSchedule[] = [];
+  for (const schedule of schedules) {
+    const current = prices.get(schedule.tokenAddress);
+    if (!current) {
+      continue;
+    }
+
+    const price = current.price;
+    if (schedule.maxPrice !== null && price > schedule.maxPrice) {
+      executed.push(
+        updateDcaSchedule(schedule.id, (schedule) => {
+          schedule.nextRunAt = addMinutes(now, schedule.intervalMinutes);
+          schedule.executions.push({
+            runAt: new Date(now).toISOString(),
+            status: "skipped",
+            price,
+            error: `Price ${price} SOL is above the ceiling of ${schedule.maxPrice} SOL`,
+          });
+        })
+      );
+      continue;
+    }
+
+    executed.push(await executeDcaBuy(schedule, price));
+  }
+
+  return executed;
+}
+
+export function getConfiguredPollInterval() {
+  const value = Number(
+    process.env.DCA_POLL_INTERVAL_MS || DEFAULT_POLL_INTERVAL_MS
+  );
+  if (!Number.isInteger(value) || value < 1000) {
+    throw new Error(
+      `DCA_POLL_INTERVAL_MS must be an integer of at least 1000, got "${process.env.DCA_POLL_INTERVAL_MS}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Starts running due schedules in the server process. Buys left executing by
+ * a previous process are marked failed and the schedule paused rather than
+ * retried, because the buy may already have landed. Runs missed while the
+ * server was down are not caught up; a due schedule buys once and then
+ * continues at its interval.
+ */
+export function startDcaScheduler(
+  intervalMs: number = getConfiguredPollInterval()
+) {
+  for (const schedule of readDcaSchedules()) {
+    if (latestExecution(schedule)?.status === "executing") {
+      updateDcaSchedule(schedule.id, (schedule) => {
+        const message =
+          "The server stopped while this buy was executing. Check get-trade-history to see whether it landed, then resume the schedule.";
+        Object.assign(latestExecution(schedule), {
+          status: "failed",
+          error: message,
+        });
+        schedule.lastError = message;
+        if (schedule.status === "active") {
+          schedule.status = "paused";
+        }
+      });
+    }
+  }
+
+  let checking = false;
+  const timer = setInterval(async () => {
+    if (checking) {
+      return;
+    }
+    checking = true;
+    try {
+      await checkDcaSchedules();
+    } catch (error: any) {
+      console.error("Error checking DCA schedules:", error);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return timer;
+}
+
+function formatExecution(execution: DcaExecution) {
+  const price = execution.price !== null ? ` at ${execution.price} SOL` : "";
+  if (execution.status === "filled") {
+    return `    ${execution.runAt}: bought ${execution.tokensPurchased} tokens for ${execution.amountSpent} SOL${price} (${execution.signature})`;
+  }
+  return `    ${execution.runAt}: ${execution.status}${price}${
+    execution.error ? ` - ${execution.error}` : ""
+  }`;
+}
+
+function formatSchedule(schedule: DcaSchedule) {
+  const lines = [
+    `${schedule.id}: buy ${schedule.amountSol} SOL of ${schedule.tokenAddress} every ${schedule.intervalMinutes} minutes (${schedule.status})`,
+    `  Account: ${schedule.accountName}`,
+    `  Progress: ${schedule.buysCompleted} of ${schedule.totalBuys} buys, ${schedule.solSpent} SOL spent for ${schedule.tokensPurchased} tokens`,
+    `  Price Ceiling: ${
+      schedule.maxPrice !== null ? `${schedule.maxPrice} SOL` : "none"
+    }`,
+    `  Slippage: ${schedule.slippageBasisPoints} basis points`,
+  ];
+
+  if (schedule.status === "active") {
+    lines.push(`  Next Run: ${schedule.nextRunAt}`);
+  }
+  if (schedule.lastError) {
+    lines.push(`  Last Error: ${schedule.lastError}`);
+  }
+  if (schedule.executions.length > 0) {
+    lines.push(`  Executions:`);
+    lines.push(...schedule.executions.map(formatExecution));
+  }
+
+  return lines.join("\n");
+}
+
+export function formatCreateDcaScheduleResult(
+  result: ReturnType<typeof createDcaSchedule> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error creating DCA schedule: ${result.error}`;
+  }
+
+  return [
+    `Created DCA schedule`,
+    formatSchedule(result.schedule),
+    `Current Price: ${result.currentPrice} SOL`,
+  ].join("\n");
+}
+
+export function formatListDcaSchedulesResult(
+  result: ReturnType<typeof listDcaSchedules> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error listing DCA schedules: ${result.error}`;
+  }
+
+  if (result.schedules.length === 0) {
+    return result.status === "all"
+      ? "No DCA schedules found."
+      : `No ${result.status} DCA schedules found.`;
+  }
+
+  return result.schedules.map(formatSchedule).join("\n\n");
+}
+
+export function formatUpdateDcaScheduleResult(
+  action: "Paused" | "Resumed" | "Cancelled",
+  result: ReturnType<typeof pauseDcaSchedule> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error ${
+      action === "Paused"
+        ? "pausing"
+        : action === "Resumed"
+        ? "resuming"
+        : "cancelling"
+    } DCA schedule: ${result.error}`;
+  }
+
+  return [`${action} DCA schedule`, formatSchedule(result.schedule)].join("\n");
+}
+
+const dcaExecutionSchema = z.object({
+  runAt: z.string(),
+  status: z.enum(["executing", "filled", "skipped", "failed"]),
+  price: z.string().nullable().describe("SOL per token when the run started"),
+  signature: z.string().optional(),
+  amountSpent: z.string().optional(),
+  tokensPurchased: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const dcaScheduleSchema = z.object({
+  id: z.string(),
+  accountName: z.string(),
+  tokenAddress: z.string(),
+  amountSol: z.string(),
+  intervalMinutes: z.number(),
+  totalBuys: z.number(),
+  maxPrice: z.string().nullable().describe("SOL per token"),
+  slippageBasisPoints: z.number(),
+  status: z.enum(["active", "paused", "completed", "cancelled", "failed"]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  nextRunAt: z.string(),
+  buysCompleted: z.number(),
+  solSpent: z.string(),
+  tokensPurchased: z.string(),
+  executions: z.array(dcaExecutionSchema),
+  lastError: z.string().optional(),
+});
+
+export const dcaScheduleOutputSchema = {
+  schedule: dcaScheduleSchema,
+};
+
+export const createDcaScheduleOutputSchema = {
+  schedule: dcaScheduleSchema,
+  currentPrice: z.string(),
+};
+
+export const listDcaSchedulesOutputSchema = {
+  status: z.string(),
+  schedules: z.array(dcaScheduleSchema),
+};
+
+function optionalString(value: number | undefined) {
+  return value !== undefined ? String(value) : undefined;
+}
+
+export function toDcaScheduleStructuredContent(schedule: DcaSchedule) {
+  return {
+    ...schedule,
+    amountSol: String(schedule.amountSol),
+    maxPrice: schedule.maxPrice !== null ? String(schedule.maxPrice) : null,
+    solSpent: String(schedule.solSpent),
+    tokensPurchased: String(schedule.tokensPurchased),
+    executions: schedule.executions.map((execution) => ({
+      ...execution,
+      price: execution.price !== null ? String(execution.price) : null,
+      amountSpent: optionalString(execution.amountSpent),
+      tokensPurchased: optionalString(execution.tokensPurchased),
+    })),
+  };
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  let formattedResult: string;
+  switch (command) {
+    case "create": {
+      const [
+        tokenAddress,
+        amountSol,
+        intervalMinutes,
+        totalBuys,
+        accountName,
+        maxPrice,
+      ] = args;
+      formattedResult = formatCreateDcaScheduleResult(
+        await createDcaSchedule(
+          tokenAddress,
+          parseFloat(amountSol),
+          parseFloat(intervalMinutes),
+          parseInt(totalBuys),
+          accountName || "default",
+          maxPrice ? parseFloat(maxPrice) : undefined
+        )
+      );
+      break;
+    }
+    case "list":
+      formattedResult = formatListDcaSchedulesResult(
+        await listDcaSchedules({
+          status: (args[0] as DcaScheduleStatus | "all") || "all",
+        })
+      );
+      break;
+    case "pause":
+      formattedResult = formatUpdateDcaScheduleResult(
+        "Paused",
+        await pauseDcaSchedule(args[0])
+      );
+      break;
+    case "resume":
+      formattedResult = formatUpdateDcaScheduleResult(
+        "Resumed",
+        await resumeDcaSchedule(args[0])
+      );
+      break;
+    case "cancel":
+      formattedResult = formatUpdateDcaScheduleResult(
+        "Cancelled",
+        await cancelDcaSchedule(args[0])
+      );
+      break;
+    case "run": {
+      const executed = await checkDcaSchedules();
+      formattedResult = executed.length
+        ? executed.map(formatSchedule).join("\n\n")
+        : "No DCA schedules due.";
+      break;
+    }
+    default:
+      console.error("Usage:");
+      console.error(
+        "  node dca-schedules.js create <token_address> <amount_sol> <interval_minutes> <total_buys> [account_name] [max_price]"
+      );
+      console.error(
+        "  node dca-schedules.js list [active|paused|completed|cancelled|failed|all]"
+      );
+      console.error("  node dca-schedules.js pause <schedule_id>");
+      console.error("  node dca-schedules.js resume <schedule_id>");
+      console.error("  node dca-schedules.js cancel <schedule_id>");
+      console.error("  node dca-schedules.js run");
+      process.exit(1);
+  }
+
+  console.log("\nResult:");
+  console.log(formattedResult);
+
+  const mcpResponse = createMcpResponse(formattedResult);
+
+  console.log("\nMCP Response (for reference):");
+  console.log(JSON.stringify(mcpResponse, null, 2));
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  createDcaSchedule,
+  listDcaSchedules,
+  pauseDcaSchedule,
+  resumeDcaSchedule,
+  cancelDcaSchedule,
+  checkDcaSchedules,
+  startDcaScheduler,
+};
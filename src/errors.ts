@@ -0,0 +1,165 @@
+import { DecodedProgramError } from "./program-errors.js";
+
+export type ErrorCode =
+  | "INSUFFICIENT_SOL"
+  | "NO_TOKEN_BALANCE"
+  | "SLIPPAGE_EXCEEDED"
+  | "CURVE_COMPLETE"
+  | "RPC_UNAVAILABLE"
+  | "INVALID_ADDRESS"
+  | "ACCOUNT_NOT_FOUND"
+  | "INVALID_INPUT"
+  | "POLICY_VIOLATION"
+  | "CONFIRMATION_REQUIRED"
+  | "TRADE_DECLINED"
+  | "TRANSACTION_FAILED"
+  | "TRANSACTION_EXPIRED"
+  | "TRANSACTION_UNCONFIRMED"
+  | "UNKNOWN";
+
+// Whether the same call can succeed if repeated without changing its inputs
+const RETRYABLE: Record<ErrorCode, boolean> = {
+  INSUFFICIENT_SOL: false,
+  NO_TOKEN_BALANCE: false,
+  SLIPPAGE_EXCEEDED: true,
+  CURVE_COMPLETE: false,
+  RPC_UNAVAILABLE: true,
+  INVALID_ADDRESS: false,
+  ACCOUNT_NOT_FOUND: false,
+  INVALID_INPUT: false,
+  POLICY_VIOLATION: false,
+  CONFIRMATION_REQUIRED: false,
+  TRADE_DECLINED: false,
+  TRANSACTION_FAILED: false,
+  TRANSACTION_EXPIRED: true,
+  TRANSACTION_UNCONFIRMED: false,
+  UNKNOWN: false,
+};
+
+const PROGRAM_ERROR_CODES: Record<string, ErrorCode> = {
+  TooMuchSolRequired: "SLIPPAGE_EXCEEDED",
+  TooLittleSolReceived: "SLIPPAGE_EXCEEDED",
+  BondingCurveComplete: "CURVE_COMPLETE",
+  ResultWithNegativeLamports: "INSUFFICIENT_SOL",
+  InsufficientFundsForFee: "INSUFFICIENT_SOL",
+  InsufficientFundsForRent: "INSUFFICIENT_SOL",
+  AccountNotFound: "INSUFFICIENT_SOL",
+  InsufficientFunds: "NO_TOKEN_BALANCE",
+  BlockhashNotFound: "TRANSACTION_EXPIRED",
+};
+
+const RPC_ERROR_PATTERN =
+  /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|timed? ?out|Too Many Requests|\b(429|502|503|504)\b|Service Unavailable|Bad Gateway/i;
+
+const INVALID_ADDRESS_PATTERN =
+  /Invalid public key input|Non-base58 character|Invalid base58|Invalid public key/i;
+
+export type ErrorContext = Record<string, unknown>;
+
+export type ToolError = {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  context: ErrorContext;
+};
+
+/**
+ * An error with a stable code that tools can throw or return. The context
+ * carries whatever identifies the failed call, such as the account or mint.
+ */
+export class PumpfunError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly context: ErrorContext;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    context: ErrorContext = {},
+    retryable: boolean = RETRYABLE[code]
+  ) {
+    super(message);
+    this.name = "PumpfunError";
+    this.code = code;
+    this.retryable = retryable;
+    this.context = context;
+  }
+}
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Error) {
+    return error.message || error.name;
+  }
+  if (typeof error === "string") {
+    return error;
+  }
+  try {
+    return JSON.stringify(error) ?? "Unknown error";
+  } catch (e) {
+    return "Error object could not be stringified";
+  }
+}
+
+export function getProgramErrorCode(error: DecodedProgramError): ErrorCode {
+  return (
+    (error.name && PROGRAM_ERROR_CODES[error.name]) || "TRANSACTION_FAILED"
+  );
+}
+
+/**
+ * Classifies anything thrown into a ToolError. PumpfunErrors keep their code;
+ * other errors are matched on their message, which is how web3.js reports
+ * unreachable RPC nodes and malformed addresses.
+ */
+export function toToolError(
+  error: unknown,
+  context: ErrorContext = {}
+): ToolError {
+  if (error instanceof PumpfunError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: error.retryable,
+      context: { ...context, ...error.context },
+    };
+  }
+
+  const message = getErrorMessage(error) || "Unknown error";
+  let code: ErrorCode = "UNKNOWN";
+  if (INVALID_ADDRESS_PATTERN.test(message)) {
+    code = "INVALID_ADDRESS";
+  } else if (RPC_ERROR_PATTERN.test(message)) {
+    code = "RPC_UNAVAILABLE";
+  }
+
+  return { code, message, retryable: RETRYABLE[code], context };
+}
+
+/**
+ * Builds the failure result returned by tool functions. `error` stays a
+ * readable message so existing formatters keep working.
+ */
+export function errorResult(error: unknown, context: ErrorContext = {}) {
+  const toolError = toToolError(error, context);
+  return {
+    success: false as const,
+    error: toolError.message,
+    code: toolError.code,
+    retryable: toolError.retryable,
+    context: toolError.context,
+  };
+}
+
+export type ErrorResult = ReturnType<typeof errorResult>;
+
+export function formatErrorCode(error: Pick<ToolError, "code" | "retryable">) {
+  return `Error Code: ${error.code}${error.retryable ? " (retryable)" : ""}`;
+}
+
+export default {
+  PumpfunError,
+  toToolError,
+  errorResult,
+  getProgramErrorCode,
+  formatErrorCode,
+};
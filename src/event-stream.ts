@@ -0,0 +1,563 @@
+import { PublicKey } from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import {
+  CompleteEvent,
+  CreateEvent,
+  PumpFunSDK,
+  TradeEvent,
+} from "pumpdotfun-sdk";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import {
+  getPriceFromReserves,
+  lamportsToSol,
+  tokenUnitsToAmount,
+} from "./bonding-curve.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const DEFAULT_BUFFER_SIZE = 1000;
+export const DEFAULT_RECENT_EVENTS = 50;
+export const MAX_RECENT_EVENTS = 500;
+
+export const EVENT_KINDS = ["create", "trade", "complete"] as const;
+export type PumpfunEventKind = (typeof EVENT_KINDS)[number];
+
+/**
+ * A program event flattened to plain values. Fields that do not apply to the
+ * event's kind are null.
+ */
+export type PumpfunEvent = {
+  id: number;
+  kind: PumpfunEventKind;
+  mint: string;
+  user: string;
+  signature: string;
+  slot: number;
+  timestamp: string;
+  name: string | null;
+  symbol: string | null;
+  uri: string | null;
+  side: "buy" | "sell" | null;
+  solAmount: number | null;
+  tokenAmount: number | null;
+  price: number | null;
+};
+
+export type EventSubscription = {
+  id: string;
+  kinds: PumpfunEventKind[];
+  mints: string[] | null;
+  createdAt: string;
+  delivered: number;
+};
+
+/**
+ * Called for every event that matches a subscription, once per matching
+ * subscription. The server sets one that sends MCP notifications.
+ */
+export type EventNotifier = (
+  subscription: EventSubscription,
+  event: PumpfunEvent
+) => void | Promise<void>;
+
+const events: PumpfunEvent[] = [];
+const subscriptions = new Map<string, EventSubscription>();
+let nextEventId = 1;
+let eventNotifier: EventNotifier | null = null;
+let stream: { sdk: PumpFunSDK; listenerIds: number[] } | null = null;
+
+export function getConfiguredBufferSize() {
+  const value = Number(process.env.EVENT_BUFFER_SIZE || DEFAULT_BUFFER_SIZE);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `EVENT_BUFFER_SIZE must be a positive integer, got "${process.env.EVENT_BUFFER_SIZE}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Replaces the function matching events are delivered to. Pass null to stop
+ * delivering them; they are still buffered.
+ */
+export function setEventNotifier(notifier: EventNotifier | null) {
+  eventNotifier = notifier;
+}
+
+function matches(subscription: EventSubscription, event: PumpfunEvent) {
+  return (
+    subscription.kinds.includes(event.kind) &&
+    (subscription.mints === null || subscription.mints.includes(event.mint))
+  );
+}
+
+/**
+ * Adds an event to the buffer, dropping the oldest once it is full, and
+ * delivers it to every matching subscription.
+ */
+export function recordEvent(event: Omit<PumpfunEvent, "id">) {
+  const recorded = { id: nextEventId++, ...event };
+  events.push(recorded);
+  const overflow = events.length - getConfiguredBufferSize();
+  if (overflow > 0) {
+    events.splice(0, overflow);
+  }
+
+  for (const subscription of subscriptions.values()) {
+    if (!matches(subscription, recorded)) {
+      continue;
+    }
+    subscription.delivered++;
+    Promise.resolve()
+      .then(() => eventNotifier?.(subscription, recorded))
+      .catch((error) => console.error("Error delivering event:", error));
+  }
+
+  return recorded;
+}
+
+function emptyDetails() {
+  return {
+    name: null,
+    symbol: null,
+    uri: null,
+    side: null,
+    solAmount: null,
+    tokenAmount: null,
+    price: null,
+  };
+}
+
+function toTimestamp(seconds?: number) {
+  return new Date(seconds ? seconds * 1000 : Date.now()).toISOString();
+}
+
+function fromCreateEvent(event: CreateEvent, slot: number, signature: string) {
+  return {
+    ...emptyDetails(),
+    kind: "create" as const,
+    mint: event.mint.toString(),
+    user: event.user.toString(),
+    signature,
+    slot,
+    timestamp: toTimestamp(),
+    name: event.name,
+    symbol: event.symbol,
+    uri: event.uri,
+  };
+}
+
+function fromTradeEvent(event: TradeEvent, slot: number, signature: string) {
+  return {
+    ...emptyDetails(),
+    kind: "trade" as const,
+    mint: event.mint.toString(),
+    user: event.user.toString(),
+    signature,
+    slot,
+    timestamp: toTimestamp(event.timestamp),
+    side: event.isBuy ? ("buy" as const) : ("sell" as const),
+    solAmount: lamportsToSol(event.solAmount),
+    tokenAmount: tokenUnitsToAmount(event.tokenAmount),
+    price: getPriceFromReserves(
+      event.virtualSolReserves,
+      event.virtualTokenReserves
+    ),
+  };
+}
+
+function fromCompleteEvent(
+  event: CompleteEvent,
+  slot: number,
+  signature: string
+) {
+  return {
+    ...emptyDetails(),
+    kind: "complete" as const,
+    mint: event.mint.toString(),
+    user: event.user.toString(),
+    signature,
+    slot,
+    timestamp: toTimestamp(event.timestamp),
+  };
+}
+
+export function isEventStreamRunning() {
+  return stream !== null;
+}
+
+/**
+ * Connects to the program's logs over the RPC websocket. Does nothing if the
+ * stream is already running.
+ */
+export function startEventStream() {
+  if (stream) {
+    return;
+  }
+
+  const { sdk } = initializeSDK();
+  stream = {
+    sdk,
+    listenerIds: [
+      sdk.addEventListener("createEvent", (event, slot, signature) =>
+        recordEvent(fromCreateEvent(event, slot, signature))
+      ),
+      sdk.addEventListener("tradeEvent", (event, slot, signature) =>
+        recordEvent(fromTradeEvent(event, slot, signature))
+      ),
+      sdk.addEventListener("completeEvent", (event, slot, signature) =>
+        recordEvent(fromCompleteEvent(event, slot, signature))
+      ),
+    ],
+  };
+  console.error("Pump.fun event stream connected");
+}
+
+export function stopEventStream() {
+  if (!stream) {
+    return;
+  }
+
+  for (const listenerId of stream.listenerIds) {
+    stream.sdk.removeEventListener(listenerId);
+  }
+  stream = null;
+  console.error("Pump.fun event stream disconnected");
+}
+
+function validateKinds(kinds: PumpfunEventKind[]) {
+  const unknown = kinds.filter((kind) => !EVENT_KINDS.includes(kind));
+  if (kinds.length === 0 || unknown.length > 0) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Event kinds must be one or more of ${EVENT_KINDS.join(", ")}`,
+      { kinds }
+    );
+  }
+}
+
+function validateMint(mint: string) {
+  try {
+    new PublicKey(mint);
+  } catch {
+    throw new PumpfunError(
+      "INVALID_ADDRESS",
+      `Invalid token address: ${mint}`,
+      { tokenAddress: mint }
+    );
+  }
+}
+
+/**
+ * Subscribes to new launches, trades or curve completions, optionally only
+ * for some mints. The first subscription starts the stream.
+ */
+export async function subscribeEvents(
+  kinds: PumpfunEventKind[] = [...EVENT_KINDS],
+  mints?: string[]
+) {
+  try {
+    validateKinds(kinds);
+    mints?.forEach(validateMint);
+
+    startEventStream();
+
+    const subscription: EventSubscription = {
+      id: randomBytes(6).toString("hex"),
+      kinds: Array.from(new Set(kinds)),
+      mints: mints?.length ? Array.from(new Set(mints)) : null,
+      createdAt: new Date().toISOString(),
+      delivered: 0,
+    };
+    subscriptions.set(subscription.id, subscription);
+
+    return {
+      success: true as const,
+      subscription,
+      streaming: isEventStreamRunning(),
+    };
+  } catch (error: any) {
+    console.error("Error subscribing to events:", error);
+    return errorResult(error, { kinds, mints });
+  }
+}
+
+/**
+ * Removes a subscription. The stream stops when none are left; buffered
+ * events are kept.
+ */
+export async function unsubscribeEvents(id: string) {
+  try {
+    const subscription = subscriptions.get(id);
+    if (!subscription) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `No event subscription with id ${id}. Use get-recent-events to see subscription ids.`,
+        { subscriptionId: id }
+      );
+    }
+
+    subscriptions.delete(id);
+    if (subscriptions.size === 0) {
+      stopEventStream();
+    }
+
+    return {
+      success: true as const,
+      subscription,
+      streaming: isEventStreamRunning(),
+    };
+  } catch (error: any) {
+    console.error("Error unsubscribing from events:", error);
+    return errorResult(error, { subscriptionId: id });
+  }
+}
+
+/**
+ * Returns buffered events, newest last. Pass afterId with the last id seen to
+ * poll for events since then.
+ */
+export async function getRecentEvents(
+  filter: {
+    kinds?: PumpfunEventKind[];
+    mint?: string;
+    afterId?: number;
+    limit?: number;
+  } = {}
+) {
+  try {
+    const limit = filter.limit ?? DEFAULT_RECENT_EVENTS;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECENT_EVENTS) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `limit must be an integer from 1 to ${MAX_RECENT_EVENTS}`,
+        { limit }
+      );
+    }
+    if (filter.kinds) {
+      validateKinds(filter.kinds);
+    }
+    if (filter.mint) {
+      validateMint(filter.mint);
+    }
+
+    const matching = events.filter(
+      (event) =>
+        (!filter.kinds || filter.kinds.includes(event.kind)) &&
+        (!filter.mint || event.mint === filter.mint) &&
+        (filter.afterId === undefined || event.id > filter.afterId)
+    );
+
+    return {
+      success: true as const,
+      streaming: isEventStreamRunning(),
+      subscriptions: Array.from(subscriptions.values()),
+      events: matching.slice(-limit),
+    };
+  } catch (error: any) {
+    console.error("Error getting recent events:", error);
+    return errorResult(error);
+  }
+}
+
+function formatKinds(kinds: PumpfunEventKind[]) {
+  return kinds.join(", ");
+}
+
+function formatSubscription(subscription: EventSubscription) {
+  return [
+    `Subscription ${subscription.id}`,
+    `  Events: ${formatKinds(subscription.kinds)}`,
+    `  Mints: ${subscription.mints ? subscription.mints.join(", ") : "all"}`,
+    `  Created: ${subscription.createdAt}`,
+    `  Delivered: ${subscription.delivered}`,
+  ].join("\n");
+}
+
+export function formatEvent(event: PumpfunEvent) {
+  let summary: string;
+  switch (event.kind) {
+    case "create":
+      summary = `created ${event.name} (${event.symbol})`;
+      break;
+    case "trade":
+      summary = `${event.side === "buy" ? "bought" : "sold"} ${
+        event.tokenAmount
+      } tokens for ${event.solAmount} SOL, price ${event.price} SOL`;
+      break;
+    case "complete":
+      summary = "completed the bonding curve";
+      break;
+  }
+
+  return [
+    `#${event.id} ${event.timestamp} ${event.kind} ${event.mint}`,
+    `  ${event.user} ${summary}`,
+    `  Signature: ${event.signature} (slot ${event.slot})`,
+  ].join("\n");
+}
+
+export function formatSubscribeEventsResult(
+  result: ReturnType<typeof subscribeEvents> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error subscribing to events: ${result.error}`;
+  }
+
+  return [
+    `Subscribed to events`,
+    formatSubscription(result.subscription),
+    `Matching events are sent as notifications and kept for get-recent-events.`,
+  ].join("\n");
+}
+
+export function formatUnsubscribeEventsResult(
+  result: ReturnType<typeof unsubscribeEvents> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error unsubscribing from events: ${result.error}`;
+  }
+
+  return [
+    `Unsubscribed from events`,
+    formatSubscription(result.subscription),
+    `Event Stream: ${result.streaming ? "connected" : "disconnected"}`,
+  ].join("\n");
+}
+
+export function formatRecentEventsResult(
+  result: ReturnType<typeof getRecentEvents> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error getting recent events: ${result.error}`;
+  }
+
+  const lines = [
+    `Event Stream: ${
+      result.streaming
+        ? "connected"
+        : "disconnected (subscribe-events starts it)"
+    }`,
+    `Subscriptions: ${result.subscriptions.length}`,
+    ...result.subscriptions.map(formatSubscription),
+    "",
+  ];
+  if (result.events.length === 0) {
+    lines.push("No matching events buffered.");
+  } else {
+    lines.push(...result.events.map(formatEvent));
+  }
+
+  return lines.join("\n");
+}
+
+const eventKindSchema = z.enum(EVENT_KINDS);
+
+export const eventKindsInputSchema = z
+  .array(eventKindSchema)
+  .min(1)
+  .describe(
+    "Event kinds: create (new launches), trade (buys and sells) and complete (curve completions)"
+  );
+
+const eventSubscriptionSchema = z.object({
+  id: z.string(),
+  kinds: z.array(eventKindSchema),
+  mints: z.array(z.string()).nullable(),
+  createdAt: z.string(),
+  delivered: z.number(),
+});
+
+export const eventSchema = z.object({
+  id: z.number(),
+  kind: eventKindSchema,
+  mint: z.string(),
+  user: z.string(),
+  signature: z.string(),
+  slot: z.number(),
+  timestamp: z.string(),
+  name: z.string().nullable(),
+  symbol: z.string().nullable(),
+  uri: z.string().nullable(),
+  side: z.enum(["buy", "sell"]).nullable(),
+  solAmount: z.string().nullable(),
+  tokenAmount: z.string().nullable(),
+  price: z.string().nullable().describe("SOL per token after the trade"),
+});
+
+export const eventSubscriptionOutputSchema = {
+  subscription: eventSubscriptionSchema,
+  streaming: z.boolean(),
+};
+
+export const recentEventsOutputSchema = {
+  streaming: z.boolean(),
+  subscriptions: z.array(eventSubscriptionSchema),
+  events: z.array(eventSchema),
+};
+
+function optionalString(value: number | null) {
+  return value !== null ? String(value) : null;
+}
+
+export function toEventStructuredContent(event: PumpfunEvent) {
+  return {
+    ...event,
+    solAmount: optionalString(event.solAmount),
+    tokenAmount: optionalString(event.tokenAmount),
+    price: optionalString(event.price),
+  };
+}
+
+async function main() {
+  const [kindsArg, ...mints] = process.argv.slice(2);
+  const kinds =
+    !kindsArg || kindsArg === "all"
+      ? [...EVENT_KINDS]
+      : (kindsArg.split(",") as PumpfunEventKind[]);
+
+  setEventNotifier((_, event) => console.log(`\n${formatEvent(event)}`));
+  const result = await subscribeEvents(kinds, mints);
+
+  console.log("\nResult:");
+  const formattedResult = formatSubscribeEventsResult(result);
+  console.log(formattedResult);
+
+  const mcpResponse = createMcpResponse(formattedResult);
+
+  console.log("\nMCP Response (for reference):");
+  console.log(JSON.stringify(mcpResponse, null, 2));
+
+  if (!result.success) {
+    console.error(
+      "Usage: node event-stream.js [all|create,trade,complete] [mint ...]"
+    );
+    process.exit(1);
+  }
+  console.log("\nStreaming events, press Ctrl+C to stop...");
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  subscribeEvents,
+  unsubscribeEvents,
+  getRecentEvents,
+  startEventStream,
+  stopEventStream,
+  setEventNotifier,
+};
@@ -0,0 +1,309 @@
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { fetchBondingCurves } from "./get-portfolio.js";
+import { JournalEntry, readJournal } from "./trade-journal.js";
+import { getSpotPrice } from "./bonding-curve.js";
+import { rootDir } from "./utils.js";
+import { errorResult } from "./errors.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+type Lot = {
+  tokens: number;
+  costPerToken: number;
+};
+
+type MintPnl = {
+  accountName: string;
+  publicKey: string;
+  mint: string;
+  tokensHeld: number;
+  costBasis: number;
+  realizedPnl: number;
+  unrealizedPnl: number | null;
+  currentValue: number | null;
+  unmatchedTokensSold: number;
+  trades: number;
+};
+
+/**
+ * Replays journal entries oldest first. Buys and creates open lots at their
+ * all-in cost (curve SOL plus protocol and network fees); sells close lots
+ * first in, first out against their net proceeds.
+ */
+function computeFifo(entries: JournalEntry[]) {
+  const lots: Lot[] = [];
+  let realizedPnl = 0;
+  let unmatchedTokensSold = 0;
+
+  for (const entry of entries) {
+    if (entry.side === "sell") {
+      const proceeds = entry.solAmount - entry.protocolFee - entry.networkFee;
+      let remaining = entry.tokenAmount;
+      let costOfSold = 0;
+
+      while (remaining > 0 && lots.length > 0) {
+        const lot = lots[0];
+        const matched = Math.min(lot.tokens, remaining);
+        costOfSold += matched * lot.costPerToken;
+        lot.tokens -= matched;
+        remaining -= matched;
+        if (lot.tokens <= 0) {
+          lots.shift();
+        }
+      }
+
+      unmatchedTokensSold += remaining;
+      realizedPnl += proceeds - costOfSold;
+    } else if (entry.tokenAmount > 0) {
+      const cost = entry.solAmount + entry.protocolFee + entry.networkFee;
+      lots.push({
+        tokens: entry.tokenAmount,
+        costPerToken: cost / entry.tokenAmount,
+      });
+    }
+  }
+
+  return {
+    tokensHeld: lots.reduce((total, lot) => total + lot.tokens, 0),
+    costBasis: lots.reduce(
+      (total, lot) => total + lot.tokens * lot.costPerToken,
+      0
+    ),
+    realizedPnl,
+    unmatchedTokensSold,
+  };
+}
+
+export async function getPnl(accountName?: string, mint?: string) {
+  try {
+    const entries = readJournal()
+      .filter(
+        (entry) =>
+          (!accountName ||
+            entry.accountName === accountName ||
+            entry.publicKey === accountName) &&
+          (!mint || entry.mint === mint)
+      )
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const groups = new Map<string, JournalEntry[]>();
+    for (const entry of entries) {
+      const key = `${entry.publicKey}:${entry.mint}`;
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    const openMints = new Set<string>();
+    const positions: MintPnl[] = Array.from(groups.values()).map((group) => {
+      const last = group[group.length - 1];
+      const fifo = computeFifo(group);
+      if (fifo.tokensHeld > 0) {
+        openMints.add(last.mint);
+      }
+
+      return {
+        accountName: last.accountName,
+        publicKey: last.publicKey,
+        mint: last.mint,
+        ...fifo,
+        unrealizedPnl: null,
+        currentValue: null,
+        trades: group.length,
+      };
+    });
+
+    if (openMints.size > 0) {
+      const { sdk, connection } = initializeSDK();
+      const curves = await fetchBondingCurves(
+        sdk,
+        connection,
+        Array.from(openMints)
+      );
+
+      for (const position of positions) {
+        const curve = curves.get(position.mint);
+        if (position.tokensHeld > 0 && curve && !curve.complete) {
+          position.currentValue = position.tokensHeld * getSpotPrice(curve);
+          position.unrealizedPnl = position.currentValue - position.costBasis;
+        }
+      }
+    }
+
+    const accounts = new Map<
+      string,
+      {
+        accountName: string;
+        publicKey: string;
+        realizedPnl: number;
+        unrealizedPnl: number;
+      }
+    >();
+    for (const position of positions) {
+      const account = accounts.get(position.publicKey) || {
+        accountName: position.accountName,
+        publicKey: position.publicKey,
+        realizedPnl: 0,
+        unrealizedPnl: 0,
+      };
+      account.realizedPnl += position.realizedPnl;
+      account.unrealizedPnl += position.unrealizedPnl || 0;
+      accounts.set(position.publicKey, account);
+    }
+
+    const accountTotals = Array.from(accounts.values());
+
+    return {
+      success: true as const,
+      positions,
+      accounts: accountTotals,
+      totalRealizedPnl: accountTotals.reduce(
+        (total, account) => total + account.realizedPnl,
+        0
+      ),
+      totalUnrealizedPnl: accountTotals.reduce(
+        (total, account) => total + account.unrealizedPnl,
+        0
+      ),
+    };
+  } catch (error: any) {
+    console.error("Error computing profit and loss:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatPnlResult(
+  result: ReturnType<typeof getPnl> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error computing profit and loss: ${result.error}`;
+  }
+
+  if (result.positions.length === 0) {
+    return "No trades recorded in the journal yet.";
+  }
+
+  const lines = ["Profit and loss (FIFO cost basis):"];
+
+  for (const account of result.accounts) {
+    lines.push(`${account.accountName} (${account.publicKey})`);
+    lines.push(`  Realized P&L: ${account.realizedPnl} SOL`);
+    lines.push(`  Unrealized P&L: ${account.unrealizedPnl} SOL`);
+
+    for (const position of result.positions.filter(
+      (position) => position.publicKey === account.publicKey
+    )) {
+      lines.push(`  ${position.mint} (${position.trades} trades)`);
+      lines.push(`    Tokens Held: ${position.tokensHeld}`);
+      lines.push(`    Cost Basis: ${position.costBasis} SOL`);
+      lines.push(`    Realized P&L: ${position.realizedPnl} SOL`);
+      lines.push(
+        position.unrealizedPnl !== null
+          ? `    Unrealized P&L: ${position.unrealizedPnl} SOL (value ${position.currentValue} SOL)`
+          : `    Unrealized P&L: not available`
+      );
+      if (position.unmatchedTokensSold > 0) {
+        lines.push(
+          `    ${position.unmatchedTokensSold} tokens were sold without a recorded buy and count at zero cost`
+        );
+      }
+    }
+  }
+
+  lines.push(`Total Realized P&L: ${result.totalRealizedPnl} SOL`);
+  lines.push(`Total Unrealized P&L: ${result.totalUnrealizedPnl} SOL`);
+
+  return lines.join("\n");
+}
+
+export const pnlOutputSchema = {
+  positions: z.array(
+    z.object({
+      accountName: z.string(),
+      publicKey: z.string(),
+      mint: z.string(),
+      tokensHeld: z.string(),
+      costBasis: z.string(),
+      realizedPnl: z.string(),
+      unrealizedPnl: z.string().nullable(),
+      currentValue: z.string().nullable(),
+      unmatchedTokensSold: z.string(),
+      trades: z.number(),
+    })
+  ),
+  accounts: z.array(
+    z.object({
+      accountName: z.string(),
+      publicKey: z.string(),
+      realizedPnl: z.string(),
+      unrealizedPnl: z.string(),
+    })
+  ),
+  totalRealizedPnl: z.string(),
+  totalUnrealizedPnl: z.string(),
+};
+
+export function toPnlStructuredContent(
+  result: Extract<
+    ReturnType<typeof getPnl> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    positions: result.positions.map((position) => ({
+      accountName: position.accountName,
+      publicKey: position.publicKey,
+      mint: position.mint,
+      tokensHeld: String(position.tokensHeld),
+      costBasis: String(position.costBasis),
+      realizedPnl: String(position.realizedPnl),
+      unrealizedPnl:
+        position.unrealizedPnl !== null ? String(position.unrealizedPnl) : null,
+      currentValue:
+        position.currentValue !== null ? String(position.currentValue) : null,
+      unmatchedTokensSold: String(position.unmatchedTokensSold),
+      trades: position.trades,
+    })),
+    accounts: result.accounts.map((account) => ({
+      accountName: account.accountName,
+      publicKey: account.publicKey,
+      realizedPnl: String(account.realizedPnl),
+      unrealizedPnl: String(account.unrealizedPnl),
+    })),
+    totalRealizedPnl: String(result.totalRealizedPnl),
+    totalUnrealizedPnl: String(result.totalUnrealizedPnl),
+  };
+}
+
+async function main() {
+  const accountName =
+    process.argv[2] && process.argv[2] !== "all" ? process.argv[2] : undefined;
+  const mint = process.argv[3];
+
+  try {
+    const result = await getPnl(accountName, mint);
+
+    console.log("\nResult:");
+    const formattedResult = formatPnlResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  getPnl,
+  formatPnlResult,
+  toPnlStructuredContent,
+};
@@ -0,0 +1,268 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { BondingCurveAccount, PumpFunSDK } from "pumpdotfun-sdk";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { resolveAddress } from "./list-accounts.js";
+import { getSpotPrice } from "./bonding-curve.js";
+import { TradingVenue, fetchPoolPrices } from "./pump-swap.js";
+import { rootDir } from "./utils.js";
+import { errorResult } from "./errors.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const CURVE_BATCH_SIZE = 100;
+
+export async function fetchBondingCurves(
+  sdk: PumpFunSDK,
+  connection: Connection,
+  mints: string[]
+) {
+  const curves = new Map<string, BondingCurveAccount>();
+
+  for (let i = 0; i < mints.length; i += CURVE_BATCH_SIZE) {
+    const batch = mints.slice(i, i + CURVE_BATCH_SIZE);
+    const curveAccounts = await connection.getMultipleAccountsInfo(
+      batch.map((mint) => sdk.getBondingCurvePDA(new PublicKey(mint)))
+    );
+
+    curveAccounts.forEach((accountInfo, index) => {
+      if (accountInfo && accountInfo.owner.equals(sdk.program.programId)) {
+        curves.set(
+          batch[index],
+          BondingCurveAccount.fromBuffer(accountInfo.data)
+        );
+      }
+    });
+  }
+
+  return curves;
+}
+
+/**
+ * Prices mints in SOL per token on the venue each one trades on. Mints with
+ * neither an open curve nor a pool are left out, including completed curves
+ * that have not finished migrating.
+ */
+export async function fetchVenuePrices(
+  sdk: PumpFunSDK,
+  connection: Connection,
+  mints: string[]
+) {
+  const prices = new Map<string, { venue: TradingVenue; price: number }>();
+  const curves = await fetchBondingCurves(sdk, connection, mints);
+
+  const graduated: string[] = [];
+  for (const mint of mints) {
+    const curve = curves.get(mint);
+    if (curve && !curve.complete) {
+      prices.set(mint, { venue: "bonding-curve", price: getSpotPrice(curve) });
+    } else {
+      graduated.push(mint);
+    }
+  }
+
+  const poolPrices = await fetchPoolPrices(connection, graduated);
+  for (const [mint, price] of poolPrices) {
+    prices.set(mint, { venue: "pumpswap", price });
+  }
+
+  return prices;
+}
+
+type Position = {
+  mint: string;
+  balance: number;
+  isPumpfun: boolean;
+  curveComplete: boolean;
+  price: number | null;
+  value: number | null;
+};
+
+export async function getPortfolio(accountName: string = "default") {
+  try {
+    const { sdk, connection } = initializeSDK();
+    const owner = await resolveAddress(accountName);
+
+    const [solBalance, ...tokenAccountResponses] = await Promise.all([
+      connection.getBalance(owner.publicKey),
+      connection.getParsedTokenAccountsByOwner(owner.publicKey, {
+        programId: TOKEN_PROGRAM_ID,
+      }),
+      connection.getParsedTokenAccountsByOwner(owner.publicKey, {
+        programId: TOKEN_2022_PROGRAM_ID,
+      }),
+    ]);
+
+    const balances = new Map<string, number>();
+    for (const response of tokenAccountResponses) {
+      for (const tokenAccount of response.value) {
+        const info = tokenAccount.account.data.parsed.info;
+        const amount = info.tokenAmount.uiAmount || 0;
+        if (amount > 0) {
+          balances.set(info.mint, (balances.get(info.mint) || 0) + amount);
+        }
+      }
+    }
+
+    const mints = Array.from(balances.keys());
+    const curves = await fetchBondingCurves(sdk, connection, mints);
+
+    const positions: Position[] = mints.map((mint) => {
+      const balance = balances.get(mint)!;
+      const curve = curves.get(mint);
+
+      if (!curve) {
+        return {
+          mint,
+          balance,
+          isPumpfun: false,
+          curveComplete: false,
+          price: null,
+          value: null,
+        };
+      }
+
+      const price = curve.complete ? null : getSpotPrice(curve);
+      return {
+        mint,
+        balance,
+        isPumpfun: true,
+        curveComplete: curve.complete,
+        price,
+        value: price !== null ? balance * price : null,
+      };
+    });
+
+    positions.sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+
+    const tokensValue = positions.reduce(
+      (total, position) => total + (position.value || 0),
+      0
+    );
+
+    return {
+      success: true as const,
+      accountName: owner.accountName,
+      publicKey: owner.publicKey.toString(),
+      solBalance: solBalance / LAMPORTS_PER_SOL,
+      positions,
+      tokensValue,
+      totalValue: solBalance / LAMPORTS_PER_SOL + tokensValue,
+    };
+  } catch (error: any) {
+    console.error("Error getting portfolio:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatPortfolioResult(
+  result: ReturnType<typeof getPortfolio> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error getting portfolio: ${result.error}`;
+  }
+
+  const label = result.accountName
+    ? `${result.accountName} (${result.publicKey})`
+    : result.publicKey;
+
+  const lines = [
+    `Portfolio for ${label}`,
+    `SOL Balance: ${result.solBalance} SOL`,
+    `Token Positions: ${result.positions.length}`,
+  ];
+
+  for (const position of result.positions) {
+    let valuation: string;
+    if (!position.isPumpfun) {
+      valuation = "not a pump.fun token";
+    } else if (position.curveComplete) {
+      valuation = "bonding curve complete, not valued";
+    } else {
+      valuation = `${position.value} SOL at ${position.price} SOL per token`;
+    }
+
+    lines.push(`  ${position.mint}: ${position.balance} (${valuation})`);
+  }
+
+  lines.push(`Token Value: ${result.tokensValue} SOL`);
+  lines.push(`Total Value: ${result.totalValue} SOL`);
+
+  return lines.join("\n");
+}
+
+export const portfolioOutputSchema = {
+  accountName: z.string().optional(),
+  publicKey: z.string(),
+  solBalance: z.string(),
+  positions: z.array(
+    z.object({
+      mint: z.string(),
+      balance: z.string(),
+      isPumpfun: z.boolean(),
+      curveComplete: z.boolean(),
+      price: z.string().nullable(),
+      value: z.string().nullable(),
+    })
+  ),
+  tokensValue: z.string(),
+  totalValue: z.string(),
+};
+
+export function toPortfolioStructuredContent(
+  result: Extract<
+    ReturnType<typeof getPortfolio> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    solBalance: String(result.solBalance),
+    positions: result.positions.map((position) => ({
+      mint: position.mint,
+      balance: String(position.balance),
+      isPumpfun: position.isPumpfun,
+      curveComplete: position.curveComplete,
+      price: position.price !== null ? String(position.price) : null,
+      value: position.value !== null ? String(position.value) : null,
+    })),
+    tokensValue: String(result.tokensValue),
+    totalValue: String(result.totalValue),
+  };
+}
+
+async function main() {
+  const accountName = process.argv[2] || "default";
+
+  try {
+    const result = await getPortfolio(accountName);
+
+    console.log("\nResult:");
+    const formattedResult = formatPortfolioResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  getPortfolio,
+  fetchBondingCurves,
+  fetchVenuePrices,
+  formatPortfolioResult,
+  toPortfolioStructuredContent,
+};
@@ -1,69 +1,115 @@
-import {
-  Connection,
-  PublicKey,
-  Keypair,
-  LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
+import { PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import fs from "fs";
 import path from "path";
 import { rootDir, getSPLBalance } from "./utils.js";
+import { readPublicKeyFromFile } from "./keystore.js";
 import dotenv from "dotenv";
+import { z } from "zod";
 import { initializeSDK } from "./get-token-info.js";
+import { getAccountNotFoundMessage } from "./list-accounts.js";
+import { validateAccountName } from "./manage-accounts.js";
+import { PumpfunError, errorResult } from "./errors.js";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
 export async function getAccountBalance(
   accountName: string = "default",
   tokenAddress?: string
-): Promise<string> {
+) {
   try {
+    validateAccountName(accountName);
     const { connection } = initializeSDK();
     const keysFolder = path.resolve(rootDir, ".keys");
     const accountFilePath = path.join(keysFolder, `${accountName}.json`);
 
     if (!fs.existsSync(accountFilePath)) {
-      throw new Error(`Account file not found for ${accountName}`);
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        await getAccountNotFoundMessage(accountName),
+        { accountName }
+      );
     }
 
-    const keypairData = JSON.parse(fs.readFileSync(accountFilePath, "utf-8"));
-    const keypair = Keypair.fromSecretKey(new Uint8Array(keypairData));
-
-    const solBalance = await connection.getBalance(keypair.publicKey);
+    const publicKey = readPublicKeyFromFile(accountFilePath);
 
-    let response = [
-      `Account: ${accountName} (${keypair.publicKey.toString()})`,
-      `SOL Balance: ${solBalance / LAMPORTS_PER_SOL} SOL`,
-    ];
+    const solBalance = await connection.getBalance(publicKey);
 
+    let tokenBalance: number | null = null;
     if (tokenAddress) {
       const mintPublicKey = new PublicKey(tokenAddress);
-      const tokenBalance = await getSPLBalance(
-        connection,
-        mintPublicKey,
-        keypair.publicKey
-      );
-
-      response.push(
-        `Token Balance (${tokenAddress}): ${
-          tokenBalance !== null ? tokenBalance : "No token account found"
-        }`
-      );
+      tokenBalance = await getSPLBalance(connection, mintPublicKey, publicKey);
     }
 
-    return response.join("\n");
+    return {
+      success: true as const,
+      accountName,
+      publicKey: publicKey.toString(),
+      solBalance: solBalance / LAMPORTS_PER_SOL,
+      tokenAddress,
+      tokenBalance,
+    };
   } catch (error: any) {
     console.error("Error getting account balance:", error);
-    return `Error getting account balance: ${
-      error?.message || "Unknown error"
-    }`;
+    return errorResult(error);
+  }
+}
+
+export function formatAccountBalanceResult(
+  result: ReturnType<typeof getAccountBalance> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error getting account balance: ${result.error}`;
   }
+
+  let response = [
+    `Account: ${result.accountName} (${result.publicKey})`,
+    `SOL Balance: ${result.solBalance} SOL`,
+  ];
+
+  if (result.tokenAddress) {
+    response.push(
+      `Token Balance (${result.tokenAddress}): ${
+        result.tokenBalance !== null
+          ? result.tokenBalance
+          : "No token account found"
+      }`
+    );
+  }
+
+  return response.join("\n");
+}
+
+export const accountBalanceOutputSchema = {
+  accountName: z.string(),
+  publicKey: z.string(),
+  solBalance: z.string(),
+  tokenAddress: z.string().optional(),
+  tokenBalance: z.string().nullable(),
+};
+
+export function toAccountBalanceStructuredContent(
+  result: Extract<
+    ReturnType<typeof getAccountBalance> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    solBalance: String(result.solBalance),
+    tokenAddress: result.tokenAddress,
+    tokenBalance:
+      result.tokenBalance !== null ? String(result.tokenBalance) : null,
+  };
 }
 
 async function main() {
   const accountName = process.argv[2] || "default";
   const tokenAddress = process.argv[3];
   const result = await getAccountBalance(accountName, tokenAddress);
-  console.log(result);
+  console.log(formatAccountBalanceResult(result));
 }
 
 const isMainModule = import.meta.url === `file://${process.argv[1]}`;
@@ -2,8 +2,18 @@ import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { AnchorProvider } from "@coral-xyz/anchor";
 import { PumpFunSDK, DEFAULT_DECIMALS } from "pumpdotfun-sdk";
 import dotenv from "dotenv";
+import { z } from "zod";
 import path from "path";
 import { rootDir, safeStringify } from "./utils.js";
+import { getCurveState } from "./bonding-curve.js";
+import { ErrorResult, formatErrorCode } from "./errors.js";
+import {
+  TradingVenue,
+  fetchPoolPrices,
+  formatVenue,
+  getPoolPDA,
+  venueOutputSchema,
+} from "./pump-swap.js";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
@@ -35,7 +45,7 @@ export function initializeSDK() {
 }
 
 export async function getTokenInfo(tokenAddress: string) {
-  const { sdk } = initializeSDK();
+  const { sdk, connection } = initializeSDK();
   console.log("SDK initialized");
 
   const mintPublicKey = new PublicKey(tokenAddress);
@@ -52,10 +62,33 @@ export async function getTokenInfo(tokenAddress: string) {
     ? Number(tokenTotalSupply) / Math.pow(10, DEFAULT_DECIMALS)
     : "Unknown";
 
+  console.error("Getting global account...");
+  const globalAccount = await sdk.getGlobalAccount();
+  const curveState = getCurveState(bondingCurveAccount, globalAccount);
+
+  // A completed curve's price is frozen; graduated tokens trade in the pool
+  let venue: TradingVenue | null = "bonding-curve";
+  let poolAddress: string | null = null;
+  let spotPrice = curveState.spotPrice;
+  if (bondingCurveAccount.complete) {
+    console.error("Getting PumpSwap pool...");
+    const poolPrice = (await fetchPoolPrices(connection, [tokenAddress])).get(
+      tokenAddress
+    );
+    venue = poolPrice === undefined ? null : "pumpswap";
+    poolAddress =
+      poolPrice === undefined ? null : getPoolPDA(mintPublicKey).toString();
+    spotPrice = poolPrice ?? spotPrice;
+  }
+
   return {
     tokenAddress,
     bondingCurveAccount,
     formattedSupply,
+    curveState,
+    venue,
+    poolAddress,
+    spotPrice,
     pumpfunUrl: `https://pump.fun/${tokenAddress}`,
   };
 }
@@ -65,14 +98,75 @@ export function formatTokenInfo(
     ? NonNullable<T>
     : never
 ) {
+  const { curveState } = tokenInfo;
+
   return [
     `Token: ${tokenInfo.tokenAddress}`,
     `Supply: ${tokenInfo.formattedSupply}`,
+    `Venue: ${
+      tokenInfo.venue
+        ? formatVenue(tokenInfo.venue)
+        : "none (curve complete, PumpSwap pool not found yet)"
+    }`,
+    ...(tokenInfo.poolAddress
+      ? [`PumpSwap Pool: ${tokenInfo.poolAddress}`]
+      : []),
+    `Spot Price: ${tokenInfo.spotPrice} SOL`,
+    `Market Cap: ${curveState.marketCapSol} SOL`,
+    `Real SOL in Curve: ${curveState.realSolReserves} SOL`,
+    `Tokens Remaining for Sale: ${curveState.tokensRemaining}`,
+    `Graduation Progress: ${curveState.graduationProgressPercent.toFixed(2)}%`,
+    `Curve Complete: ${curveState.complete ? "Yes" : "No"}`,
     `Pump.fun URL: ${tokenInfo.pumpfunUrl}`,
   ].join("\n");
 }
 
-export function createMcpResponse(text: string) {
+export const tokenInfoOutputSchema = {
+  tokenAddress: z.string(),
+  supply: z.string(),
+  venue: venueOutputSchema
+    .nullable()
+    .describe(
+      "Where the token trades now; null while a completed curve is migrating"
+    ),
+  poolAddress: z.string().nullable(),
+  spotPrice: z
+    .string()
+    .describe("Spot price in SOL per token on the current venue"),
+  marketCapSol: z.string(),
+  realSolReserves: z.string(),
+  tokensRemaining: z.string(),
+  graduationProgressPercent: z.number(),
+  complete: z.boolean(),
+  pumpfunUrl: z.string(),
+};
+
+export function toTokenInfoStructuredContent(
+  tokenInfo: ReturnType<typeof getTokenInfo> extends Promise<infer T>
+    ? NonNullable<T>
+    : never
+) {
+  const { curveState } = tokenInfo;
+
+  return {
+    tokenAddress: tokenInfo.tokenAddress,
+    supply: String(tokenInfo.formattedSupply),
+    venue: tokenInfo.venue,
+    poolAddress: tokenInfo.poolAddress,
+    spotPrice: String(tokenInfo.spotPrice),
+    marketCapSol: String(curveState.marketCapSol),
+    realSolReserves: String(curveState.realSolReserves),
+    tokensRemaining: String(curveState.tokensRemaining),
+    graduationProgressPercent: curveState.graduationProgressPercent,
+    complete: curveState.complete,
+    pumpfunUrl: tokenInfo.pumpfunUrl,
+  };
+}
+
+export function createMcpResponse(
+  text: string,
+  structuredContent?: Record<string, unknown>
+) {
   return {
     content: [
       {
@@ -80,6 +174,32 @@ export function createMcpResponse(text: string) {
         text,
       },
     ],
+    ...(structuredContent ? { structuredContent } : {}),
+  };
+}
+
+/**
+ * Builds a failed tool response. Failures carry no structuredContent, since
+ * clients validate it against the tool's output schema even when isError is
+ * set, so the error code and context go at the end of the text instead.
+ */
+export function createMcpErrorResponse(text: string, failure?: ErrorResult) {
+  const lines = [text];
+  if (failure) {
+    lines.push(formatErrorCode(failure));
+    if (Object.keys(failure.context).length > 0) {
+      lines.push(`Error Context: ${safeStringify(failure.context)}`);
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: lines.join("\n"),
+      },
+    ],
+    isError: true,
   };
 }
 
@@ -146,7 +266,9 @@ if (isMainModule) {
 export default {
   getTokenInfo,
   formatTokenInfo,
+  toTokenInfoStructuredContent,
   createMcpResponse,
+  createMcpErrorResponse,
   initializeSDK,
   safeStringify,
 };
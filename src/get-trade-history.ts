@@ -0,0 +1,494 @@
+import {
+  ConfirmedSignatureInfo,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { PumpFunSDK } from "pumpdotfun-sdk";
+import bs58 from "bs58";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { resolveAddress } from "./list-accounts.js";
+import { lamportsToSol, tokenUnitsToAmount } from "./bonding-curve.js";
+import { rootDir } from "./utils.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const SIGNATURE_PAGE_SIZE = 100;
+const TRANSACTION_BATCH_SIZE = 25;
+const MAX_SIGNATURES_SCANNED = 1000;
+
+// Anchor prefixes events emitted through a self-CPI with this tag
+const EVENT_IX_TAG = Buffer.from([
+  0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d,
+]);
+
+// Account positions in the pump.fun create, buy and sell instructions
+const INSTRUCTION_ACCOUNTS = {
+  create: { mint: 0, user: 7 },
+  buy: { mint: 2, user: 6 },
+  sell: { mint: 2, user: 6 },
+} as const;
+
+export type TradeSide = "buy" | "sell" | "create";
+
+export type Trade = {
+  signature: string;
+  timestamp: number | null;
+  mint: string;
+  side: TradeSide;
+  solAmount: number;
+  tokenAmount: number;
+  source: "event" | "instruction";
+  name?: string;
+  symbol?: string;
+};
+
+type PumpInstruction = {
+  name: TradeSide;
+  mint: string;
+  args: any;
+};
+
+// The SDK's program uses Anchor's Borsh coder, which can also decode
+type InstructionDecoder = {
+  decode(ix: Buffer): { name: string; data: any } | null;
+};
+
+type PumpEvent = {
+  name: string;
+  data: any;
+};
+
+function decodePumpInstructions(
+  sdk: PumpFunSDK,
+  tx: VersionedTransactionResponse,
+  owner: PublicKey
+) {
+  const message = tx.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const programId = sdk.program.programId;
+
+  const compiled = [
+    ...message.compiledInstructions.map((ix) => ({
+      programIdIndex: ix.programIdIndex,
+      accounts: ix.accountKeyIndexes,
+      data: Buffer.from(ix.data),
+    })),
+    ...(tx.meta?.innerInstructions || []).flatMap((inner) =>
+      inner.instructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        accounts: ix.accounts,
+        data: Buffer.from(bs58.decode(ix.data)),
+      }))
+    ),
+  ];
+
+  const instructions: PumpInstruction[] = [];
+  for (const ix of compiled) {
+    if (!accountKeys.get(ix.programIdIndex)?.equals(programId)) {
+      continue;
+    }
+
+    const decoded = (
+      sdk.program.coder.instruction as unknown as InstructionDecoder
+    ).decode(ix.data);
+    if (!decoded || !(decoded.name in INSTRUCTION_ACCOUNTS)) {
+      continue;
+    }
+
+    const name = decoded.name as TradeSide;
+    const positions = INSTRUCTION_ACCOUNTS[name];
+    const user = accountKeys.get(ix.accounts[positions.user]);
+    const mint = accountKeys.get(ix.accounts[positions.mint]);
+    if (!user || !mint || !user.equals(owner)) {
+      continue;
+    }
+
+    instructions.push({ name, mint: mint.toString(), args: decoded.data });
+  }
+
+  return instructions;
+}
+
+function decodePumpEvents(sdk: PumpFunSDK, tx: VersionedTransactionResponse) {
+  const events: PumpEvent[] = [];
+
+  for (const log of tx.meta?.logMessages || []) {
+    if (!log.startsWith("Program data: ")) {
+      continue;
+    }
+
+    const event = sdk.program.coder.events.decode(
+      log.slice("Program data: ".length)
+    );
+    if (event) {
+      events.push(event);
+    }
+  }
+
+  for (const inner of tx.meta?.innerInstructions || []) {
+    for (const ix of inner.instructions) {
+      const data = Buffer.from(bs58.decode(ix.data));
+      if (data.length <= 8 || !data.subarray(0, 8).equals(EVENT_IX_TAG)) {
+        continue;
+      }
+
+      const event = sdk.program.coder.events.decode(
+        data.subarray(8).toString("base64")
+      );
+      if (event) {
+        events.push(event);
+      }
+    }
+  }
+
+  return events;
+}
+
+export function parsePumpTransaction(
+  sdk: PumpFunSDK,
+  signature: string,
+  tx: VersionedTransactionResponse,
+  owner: PublicKey
+) {
+  const trades: Trade[] = [];
+  if (tx.meta?.err) {
+    return trades;
+  }
+
+  const instructions = decodePumpInstructions(sdk, tx, owner);
+  const events = decodePumpEvents(sdk, tx);
+  const usedEvents = new Set<PumpEvent>();
+
+  for (const instruction of instructions) {
+    if (instruction.name === "create") {
+      const createEvent = events.find(
+        (event) =>
+          event.name === "CreateEvent" &&
+          event.data.mint.toString() === instruction.mint
+      );
+
+      trades.push({
+        signature,
+        timestamp: tx.blockTime ?? null,
+        mint: instruction.mint,
+        side: "create",
+        solAmount: 0,
+        tokenAmount: 0,
+        source: createEvent ? "event" : "instruction",
+        name: createEvent?.data.name ?? instruction.args.name,
+        symbol: createEvent?.data.symbol ?? instruction.args.symbol,
+      });
+      continue;
+    }
+
+    const isBuy = instruction.name === "buy";
+    const tradeEvent = events.find(
+      (event) =>
+        event.name === "TradeEvent" &&
+        !usedEvents.has(event) &&
+        event.data.isBuy === isBuy &&
+        event.data.mint.toString() === instruction.mint &&
+        event.data.user.equals(owner)
+    );
+
+    if (tradeEvent) {
+      usedEvents.add(tradeEvent);
+      trades.push({
+        signature,
+        timestamp: Number(tradeEvent.data.timestamp),
+        mint: instruction.mint,
+        side: instruction.name,
+        solAmount: lamportsToSol(BigInt(tradeEvent.data.solAmount.toString())),
+        tokenAmount: tokenUnitsToAmount(
+          BigInt(tradeEvent.data.tokenAmount.toString())
+        ),
+        source: "event",
+      });
+      continue;
+    }
+
+    // Without the event the instruction only carries the slippage bound
+    const solBound = isBuy
+      ? instruction.args.maxSolCost
+      : instruction.args.minSolOutput;
+    trades.push({
+      signature,
+      timestamp: tx.blockTime ?? null,
+      mint: instruction.mint,
+      side: instruction.name,
+      solAmount: lamportsToSol(BigInt(solBound.toString())),
+      tokenAmount: tokenUnitsToAmount(
+        BigInt(instruction.args.amount.toString())
+      ),
+      source: "instruction",
+    });
+  }
+
+  return trades;
+}
+
+function parseTime(value: string | undefined, label: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  if (isNaN(time)) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Invalid ${label} "${value}". Use an ISO 8601 date or a unix timestamp in seconds.`
+    );
+  }
+
+  return Math.floor(time / 1000);
+}
+
+export async function getTradeHistory(
+  accountName: string = "default",
+  options: {
+    mint?: string;
+    startTime?: string;
+    endTime?: string;
+    limit?: number;
+    before?: string;
+  } = {}
+) {
+  try {
+    const { sdk, connection } = initializeSDK();
+    const owner = await resolveAddress(accountName);
+
+    const startTime = parseTime(options.startTime, "startTime");
+    const endTime = parseTime(options.endTime, "endTime");
+    const limit = options.limit ?? 20;
+
+    if (options.mint) {
+      new PublicKey(options.mint);
+    }
+
+    const trades: Trade[] = [];
+    let cursor = options.before;
+    let scanned = 0;
+    let exhausted = false;
+
+    while (trades.length < limit && scanned < MAX_SIGNATURES_SCANNED) {
+      const page: ConfirmedSignatureInfo[] =
+        await connection.getSignaturesForAddress(owner.publicKey, {
+          before: cursor,
+          limit: SIGNATURE_PAGE_SIZE,
+        });
+
+      if (page.length === 0) {
+        exhausted = true;
+        break;
+      }
+
+      const candidates = page.filter(
+        (info) =>
+          startTime === undefined ||
+          !info.blockTime ||
+          info.blockTime >= startTime
+      );
+
+      for (let i = 0; i < candidates.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = candidates.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const relevant = batch.filter(
+          (info) =>
+            !info.err &&
+            !(
+              endTime !== undefined &&
+              info.blockTime &&
+              info.blockTime > endTime
+            )
+        );
+
+        const transactions = relevant.length
+          ? await connection.getTransactions(
+              relevant.map((info) => info.signature),
+              { maxSupportedTransactionVersion: 0, commitment: "confirmed" }
+            )
+          : [];
+        const bySignature = new Map(
+          relevant.map((info, index) => [info.signature, transactions[index]])
+        );
+
+        for (const info of batch) {
+          cursor = info.signature;
+          scanned++;
+
+          const tx = bySignature.get(info.signature);
+          if (tx) {
+            trades.push(
+              ...parsePumpTransaction(
+                sdk,
+                info.signature,
+                tx,
+                owner.publicKey
+              ).filter((trade) => !options.mint || trade.mint === options.mint)
+            );
+          }
+
+          if (trades.length >= limit) {
+            break;
+          }
+        }
+
+        if (trades.length >= limit) {
+          break;
+        }
+      }
+
+      // Signatures come newest first, so anything older than startTime ends the walk
+      if (
+        trades.length < limit &&
+        (candidates.length < page.length || page.length < SIGNATURE_PAGE_SIZE)
+      ) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    return {
+      success: true as const,
+      accountName: owner.accountName,
+      publicKey: owner.publicKey.toString(),
+      trades,
+      signaturesScanned: scanned,
+      nextCursor: exhausted ? undefined : cursor,
+    };
+  } catch (error: any) {
+    console.error("Error getting trade history:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatTradeHistoryResult(
+  result: ReturnType<typeof getTradeHistory> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error getting trade history: ${result.error}`;
+  }
+
+  const label = result.accountName
+    ? `${result.accountName} (${result.publicKey})`
+    : result.publicKey;
+
+  const lines = [
+    `Trade history for ${label}`,
+    `Trades: ${result.trades.length} (${result.signaturesScanned} transactions scanned)`,
+  ];
+
+  for (const trade of result.trades) {
+    const time =
+      trade.timestamp !== null
+        ? new Date(trade.timestamp * 1000).toISOString()
+        : "unknown time";
+
+    if (trade.side === "create") {
+      lines.push(
+        `  ${time} CREATE ${trade.mint}${
+          trade.symbol ? ` (${trade.symbol})` : ""
+        } ${trade.signature}`
+      );
+      continue;
+    }
+
+    const estimate = trade.source === "instruction" ? " (slippage bound)" : "";
+    lines.push(
+      `  ${time} ${trade.side.toUpperCase()} ${trade.tokenAmount} of ${
+        trade.mint
+      } for ${trade.solAmount} SOL${estimate} ${trade.signature}`
+    );
+  }
+
+  if (result.nextCursor) {
+    lines.push(`More history available. Next cursor: ${result.nextCursor}`);
+  }
+
+  return lines.join("\n");
+}
+
+export const tradeHistoryOutputSchema = {
+  accountName: z.string().optional(),
+  publicKey: z.string(),
+  trades: z.array(
+    z.object({
+      signature: z.string(),
+      timestamp: z.string().nullable(),
+      mint: z.string(),
+      side: z.enum(["buy", "sell", "create"]),
+      solAmount: z.string(),
+      tokenAmount: z.string(),
+      source: z.enum(["event", "instruction"]),
+      name: z.string().optional(),
+      symbol: z.string().optional(),
+    })
+  ),
+  signaturesScanned: z.number(),
+  nextCursor: z.string().optional(),
+};
+
+export function toTradeHistoryStructuredContent(
+  result: Extract<
+    ReturnType<typeof getTradeHistory> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    trades: result.trades.map((trade) => ({
+      ...trade,
+      timestamp:
+        trade.timestamp !== null
+          ? new Date(trade.timestamp * 1000).toISOString()
+          : null,
+      solAmount: String(trade.solAmount),
+      tokenAmount: String(trade.tokenAmount),
+    })),
+    signaturesScanned: result.signaturesScanned,
+    nextCursor: result.nextCursor,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const accountName = args[0] || "default";
+  const mint = args[1] && args[1] !== "all" ? args[1] : undefined;
+  const limit = args[2] ? parseInt(args[2]) : undefined;
+  const before = args[3];
+
+  try {
+    const result = await getTradeHistory(accountName, { mint, limit, before });
+
+    console.log("\nResult:");
+    const formattedResult = formatTradeHistoryResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  getTradeHistory,
+  parsePumpTransaction,
+  formatTradeHistoryResult,
+  toTradeHistoryStructuredContent,
+};
@@ -1,5 +1,12 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { Connection, Keypair } from "@solana/web3.js";
 import { AnchorProvider } from "@coral-xyz/anchor";
@@ -7,23 +14,215 @@ import { PumpFunSDK } from "pumpdotfun-sdk";
 import path from "path";
 import dotenv from "dotenv";
 import { rootDir } from "./utils.js";
+import { unlockKeystore } from "./keystore.js";
+import { priorityFeeInputSchema } from "./priority-fees.js";
+import {
+  confirmationTokenInputSchema,
+  describeBatchBuy,
+  describeBuy,
+  describeCreate,
+  describeDcaSchedule,
+  describeLaunchBundle,
+  describeSell,
+  getBatchBuySolAmount,
+  getDcaScheduleSolAmount,
+  getLaunchBundleSolAmount,
+  requireConfirmation,
+} from "./trade-confirmation.js";
 import {
   getTokenInfo,
   formatTokenInfo,
+  tokenInfoOutputSchema,
+  toTokenInfoStructuredContent,
   createMcpResponse,
+  createMcpErrorResponse,
 } from "./get-token-info.js";
-import { buyToken, formatBuyResult } from "./buy-token.js";
-import { sellToken, formatSellResult } from "./sell-token.js";
-import { listAccounts, formatListAccountsResult } from "./list-accounts.js";
-import { getAccountBalance } from "./get-token-balance.js";
-import { createToken, formatCreateTokenResult } from "./create-token.js";
+import {
+  buyToken,
+  formatBuyResult,
+  buyOutputSchema,
+  toBuyStructuredContent,
+} from "./buy-token.js";
+import {
+  quoteBuy,
+  formatQuoteBuyResult,
+  quoteBuyOutputSchema,
+  toQuoteBuyStructuredContent,
+} from "./quote-buy.js";
+import {
+  sellToken,
+  formatSellResult,
+  sellOutputSchema,
+  toSellStructuredContent,
+} from "./sell-token.js";
+import {
+  quoteSell,
+  formatQuoteSellResult,
+  quoteSellOutputSchema,
+  toQuoteSellStructuredContent,
+} from "./quote-sell.js";
+import {
+  listAccounts,
+  formatListAccountsResult,
+  listAccountsOutputSchema,
+  toListAccountsStructuredContent,
+} from "./list-accounts.js";
+import {
+  getAccountBalance,
+  formatAccountBalanceResult,
+  accountBalanceOutputSchema,
+  toAccountBalanceStructuredContent,
+} from "./get-token-balance.js";
+import {
+  createAccount,
+  importAccount,
+  exportAccount,
+  renameAccount,
+  archiveAccount,
+  formatCreateAccountResult,
+  formatImportAccountResult,
+  formatExportAccountResult,
+  formatRenameAccountResult,
+  formatArchiveAccountResult,
+  accountOutputSchema,
+  exportAccountOutputSchema,
+  renameAccountOutputSchema,
+  archiveAccountOutputSchema,
+  toAccountStructuredContent,
+} from "./manage-accounts.js";
+import {
+  transferSol,
+  formatTransferSolResult,
+  transferSolOutputSchema,
+  toTransferSolStructuredContent,
+} from "./transfer-sol.js";
+import {
+  transferToken,
+  formatTransferTokenResult,
+  transferTokenOutputSchema,
+  toTransferTokenStructuredContent,
+} from "./transfer-token.js";
+import {
+  getPortfolio,
+  formatPortfolioResult,
+  portfolioOutputSchema,
+  toPortfolioStructuredContent,
+} from "./get-portfolio.js";
+import {
+  getTradeHistory,
+  formatTradeHistoryResult,
+  tradeHistoryOutputSchema,
+  toTradeHistoryStructuredContent,
+} from "./get-trade-history.js";
+import {
+  getPnl,
+  formatPnlResult,
+  pnlOutputSchema,
+  toPnlStructuredContent,
+} from "./get-pnl.js";
+import {
+  simulateTrade,
+  formatSimulateTradeResult,
+  simulateTradeOutputSchema,
+  toSimulateTradeStructuredContent,
+} from "./simulate-trade.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import {
+  getSpendingBudget,
+  formatSpendingBudgetResult,
+  spendingBudgetOutputSchema,
+  toSpendingBudgetStructuredContent,
+} from "./spending-policy.js";
+import {
+  placeSellOrder,
+  listSellOrders,
+  amendSellOrder,
+  cancelSellOrder,
+  startSellOrderWatcher,
+  formatPlaceSellOrderResult,
+  formatListSellOrdersResult,
+  formatAmendSellOrderResult,
+  formatCancelSellOrderResult,
+  placeSellOrderOutputSchema,
+  listSellOrdersOutputSchema,
+  sellOrderOutputSchema,
+  toSellOrderStructuredContent,
+} from "./sell-orders.js";
+import {
+  createDcaSchedule,
+  listDcaSchedules,
+  pauseDcaSchedule,
+  resumeDcaSchedule,
+  cancelDcaSchedule,
+  startDcaScheduler,
+  formatCreateDcaScheduleResult,
+  formatListDcaSchedulesResult,
+  formatUpdateDcaScheduleResult,
+  createDcaScheduleOutputSchema,
+  listDcaSchedulesOutputSchema,
+  dcaScheduleOutputSchema,
+  toDcaScheduleStructuredContent,
+} from "./dca-schedules.js";
+import {
+  batchBuy,
+  formatBatchBuyResult,
+  batchBuyOutputSchema,
+  toBatchBuyStructuredContent,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+} from "./batch-buy.js";
+import {
+  launchBundle,
+  formatLaunchBundleResult,
+  launchBundleOutputSchema,
+  toLaunchBundleStructuredContent,
+} from "./launch-bundle.js";
+import {
+  DEFAULT_RECENT_EVENTS,
+  EVENT_KINDS,
+  MAX_RECENT_EVENTS,
+  eventKindsInputSchema,
+  eventSubscriptionOutputSchema,
+  formatRecentEventsResult,
+  formatSubscribeEventsResult,
+  formatUnsubscribeEventsResult,
+  getRecentEvents,
+  recentEventsOutputSchema,
+  setEventNotifier,
+  subscribeEvents,
+  toEventStructuredContent,
+  unsubscribeEvents,
+} from "./event-stream.js";
+import {
+  ACCOUNTS_RESOURCE_URI,
+  ACCOUNT_RESOURCE_TEMPLATE,
+  POSITIONS_RESOURCE_TEMPLATE,
+  TOKEN_RESOURCE_TEMPLATE,
+  getAccountResourceUri,
+  getPositionsResourceUri,
+  listAccountNames,
+  readResource,
+  setResourceNotifier,
+  startResourceWatcher,
+  subscribeResource,
+  unsubscribeResource,
+} from "./resources.js";
+import {
+  createToken,
+  formatCreateTokenResult,
+  createTokenOutputSchema,
+  toCreateTokenStructuredContent,
+} from "./create-token.js";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
-const server = new McpServer({
-  name: "pumpfun",
-  version: "1.0.0",
-});
+const server = new McpServer(
+  {
+    name: "pumpfun",
+    version: "1.0.0",
+  },
+  { capabilities: { logging: {}, resources: { subscribe: true } } }
+);
 
 function getProvider() {
   const rpcUrl = process.env.HELIUS_RPC_URL;
@@ -53,11 +252,15 @@ function getSDK() {
   return new PumpFunSDK(provider);
 }
 
-server.tool(
+server.registerTool(
   "get-token-info",
-  "Get information about a Pump.fun token",
   {
-    tokenAddress: z.string().describe("The token's mint address"),
+    description:
+      "Get information about a Pump.fun token, including whether it trades on its bonding curve or in its PumpSwap pool",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+    },
+    outputSchema: tokenInfoOutputSchema,
   },
   async ({ tokenAddress }, extra) => {
     try {
@@ -66,53 +269,62 @@ server.tool(
       const tokenInfo = await getTokenInfo(tokenAddress);
 
       if (!tokenInfo) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `No token found with address ${tokenAddress}`,
-            },
-          ],
-        };
+        return createMcpErrorResponse(
+          `No token found with address ${tokenAddress}`,
+          errorResult(
+            new PumpfunError(
+              "ACCOUNT_NOT_FOUND",
+              `No token found with address ${tokenAddress}`,
+              { tokenAddress }
+            )
+          )
+        );
       }
 
       const formattedInfo = formatTokenInfo(tokenInfo);
 
-      return createMcpResponse(formattedInfo);
+      return createMcpResponse(
+        formattedInfo,
+        toTokenInfoStructuredContent(tokenInfo)
+      );
     } catch (error: any) {
       console.error("Error getting token info:", error);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error getting token info: ${
-              error?.message || "Unknown error"
-            }`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting token info: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-server.tool(
+server.registerTool(
   "create-token",
-  "Create a new Pump.fun token",
-  {
-    name: z.string().describe("Token name"),
-    symbol: z.string().describe("Token symbol"),
-    description: z.string().describe("Token description"),
-    imageUrl: z.string().optional().describe("URL to token image (optional)"),
-    initialBuyAmount: z
-      .number()
-      .min(0.0001)
-      .describe("Initial buy amount in SOL"),
-    accountName: z
-      .string()
-      .default("default")
-      .describe(
-        "Name of the account to use (will be created if it doesn't exist)"
-      ),
+  {
+    description: "Create a new Pump.fun token",
+    inputSchema: {
+      name: z.string().describe("Token name"),
+      symbol: z.string().describe("Token symbol"),
+      description: z.string().describe("Token description"),
+      imageUrl: z.string().optional().describe("URL to token image (optional)"),
+      initialBuyAmount: z
+        .number()
+        .min(0.0001)
+        .describe("Initial buy amount in SOL"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account to use"),
+      createAccountIfMissing: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Create a new empty account if accountName does not exist (otherwise unknown names are rejected)"
+        ),
+      priorityFee: priorityFeeInputSchema,
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: createTokenOutputSchema,
   },
   async ({
     name,
@@ -121,97 +333,296 @@ server.tool(
     imageUrl,
     initialBuyAmount,
     accountName,
+    createAccountIfMissing,
+    priorityFee,
+    confirmationToken,
   }) => {
     try {
+      const rejection = await requireConfirmation(server.server, {
+        tool: "create-token",
+        args: {
+          name,
+          symbol,
+          description,
+          imageUrl,
+          initialBuyAmount,
+          accountName,
+          createAccountIfMissing,
+          priorityFee,
+        },
+        confirmationToken,
+        solAmount: initialBuyAmount,
+        describe: () =>
+          describeCreate(name, symbol, initialBuyAmount, accountName),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
       const result = await createToken(
         name,
         symbol,
         description,
         imageUrl,
         initialBuyAmount,
-        accountName
+        accountName,
+        createAccountIfMissing,
+        priorityFee
       );
 
       const formattedResult = formatCreateTokenResult(result);
 
-      return createMcpResponse(formattedResult);
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toCreateTokenStructuredContent(result)
+      );
     } catch (error: any) {
       console.error("Error creating token:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating token: ${error?.message || "Unknown error"}`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error creating token: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-server.tool(
+server.registerTool(
   "buy-token",
-  "Buy a Pump.fun token",
   {
-    tokenAddress: z.string().describe("The token's mint address"),
-    buyAmount: z.number().min(0.0001).describe("Amount to buy in SOL"),
-    accountName: z
-      .string()
-      .default("default")
-      .describe("Name of the account to use"),
-    slippageBasisPoints: z
-      .number()
-      .default(100)
-      .describe("Slippage tolerance in basis points (1% = 100)"),
+    description:
+      "Buy a Pump.fun token on its bonding curve, or in its PumpSwap pool once it has graduated",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      buyAmount: z.number().min(0.0001).describe("Amount to buy in SOL"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account to use"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      dryRun: z
+        .boolean()
+        .default(false)
+        .describe("Only quote the buy without signing or sending anything"),
+      createAccountIfMissing: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Create a new empty account if accountName does not exist (otherwise unknown names are rejected)"
+        ),
+      priorityFee: priorityFeeInputSchema,
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: {
+      dryRun: z.boolean(),
+      ...z.object(buyOutputSchema).partial().shape,
+      quote: z.object(quoteBuyOutputSchema).optional(),
+    },
   },
-  async ({ tokenAddress, buyAmount, accountName, slippageBasisPoints }) => {
+  async ({
+    tokenAddress,
+    buyAmount,
+    accountName,
+    slippageBasisPoints,
+    dryRun,
+    createAccountIfMissing,
+    priorityFee,
+    confirmationToken,
+  }) => {
     try {
+      if (dryRun) {
+        console.error(
+          `Quoting buy (dry run): ${tokenAddress}, amount: ${buyAmount} SOL`
+        );
+
+        const quote = await quoteBuy(
+          tokenAddress,
+          buyAmount,
+          slippageBasisPoints,
+          priorityFee
+        );
+
+        const formattedQuote = formatQuoteBuyResult(quote);
+
+        if (!quote.success) {
+          return createMcpErrorResponse(formattedQuote, quote);
+        }
+
+        return createMcpResponse(formattedQuote, {
+          dryRun: true,
+          tokenAddress,
+          pumpfunUrl: quote.pumpfunUrl,
+          quote: toQuoteBuyStructuredContent(quote),
+        });
+      }
+
+      const rejection = await requireConfirmation(server.server, {
+        tool: "buy-token",
+        args: {
+          tokenAddress,
+          buyAmount,
+          accountName,
+          slippageBasisPoints,
+          createAccountIfMissing,
+          priorityFee,
+        },
+        confirmationToken,
+        solAmount: buyAmount,
+        describe: () =>
+          describeBuy(
+            tokenAddress,
+            buyAmount,
+            accountName,
+            slippageBasisPoints,
+            priorityFee
+          ),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
       console.error(`Buying token: ${tokenAddress}, amount: ${buyAmount} SOL`);
 
       const result = await buyToken(
         tokenAddress,
         buyAmount,
         accountName,
-        slippageBasisPoints
+        slippageBasisPoints,
+        createAccountIfMissing,
+        priorityFee
       );
 
       const formattedResult = formatBuyResult(result);
 
-      return createMcpResponse(formattedResult);
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        dryRun: false,
+        ...toBuyStructuredContent(result),
+      });
     } catch (error: any) {
       console.error("Error buying token:", error);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error buying token: ${error?.message || "Unknown error"}`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error buying token: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "quote-buy",
+  {
+    description: "Quote a Pump.fun token buy without signing anything",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      buyAmount: z.number().min(0.0001).describe("Amount to buy in SOL"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      priorityFee: priorityFeeInputSchema,
+    },
+    outputSchema: quoteBuyOutputSchema,
+  },
+  async ({ tokenAddress, buyAmount, slippageBasisPoints, priorityFee }) => {
+    try {
+      console.error(`Quoting buy: ${tokenAddress}, amount: ${buyAmount} SOL`);
+
+      const result = await quoteBuy(
+        tokenAddress,
+        buyAmount,
+        slippageBasisPoints,
+        priorityFee
+      );
+
+      const formattedResult = formatQuoteBuyResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toQuoteBuyStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error quoting buy:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error quoting buy: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-server.tool(
+server.registerTool(
   "sell-token",
-  "Sell a Pump.fun token",
-  {
-    tokenAddress: z.string().describe("The token's mint address"),
-    sellAmount: z
-      .number()
-      .min(0)
-      .describe("Amount of tokens to sell (0 for all)"),
-    accountName: z
-      .string()
-      .default("default")
-      .describe("Name of the account to use"),
-    slippageBasisPoints: z
-      .number()
-      .default(100)
-      .describe("Slippage tolerance in basis points (1% = 100)"),
-  },
-  async ({ tokenAddress, sellAmount, accountName, slippageBasisPoints }) => {
+  {
+    description:
+      "Sell a Pump.fun token on its bonding curve, or in its PumpSwap pool once it has graduated",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      sellAmount: z
+        .number()
+        .min(0)
+        .describe("Amount of tokens to sell (0 for all)"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account to use"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      priorityFee: priorityFeeInputSchema,
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: sellOutputSchema,
+  },
+  async ({
+    tokenAddress,
+    sellAmount,
+    accountName,
+    slippageBasisPoints,
+    priorityFee,
+    confirmationToken,
+  }) => {
     try {
+      const rejection = await requireConfirmation(server.server, {
+        tool: "sell-token",
+        args: {
+          tokenAddress,
+          sellAmount,
+          accountName,
+          slippageBasisPoints,
+          priorityFee,
+        },
+        confirmationToken,
+        describe: () =>
+          describeSell(
+            tokenAddress,
+            sellAmount,
+            accountName,
+            slippageBasisPoints,
+            priorityFee
+          ),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
       console.error(
         `Selling token: ${tokenAddress}, amount: ${
           sellAmount === 0 ? "ALL" : sellAmount
@@ -222,30 +633,103 @@ server.tool(
         tokenAddress,
         sellAmount,
         accountName,
-        slippageBasisPoints
+        slippageBasisPoints,
+        priorityFee
       );
 
       const formattedResult = formatSellResult(result);
 
-      return createMcpResponse(formattedResult);
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toSellStructuredContent(result)
+      );
     } catch (error: any) {
       console.error("Error selling token:", error);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error selling token: ${error?.message || "Unknown error"}`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error selling token: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "quote-sell",
+  {
+    description: "Quote a Pump.fun token sell without signing anything",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      sellAmount: z
+        .union([z.number().min(0), z.literal("all")])
+        .default("all")
+        .describe('Amount of tokens to sell ("all" or 0 for the full balance)'),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Account name or base58 address holding the tokens"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      priorityFee: priorityFeeInputSchema,
+    },
+    outputSchema: quoteSellOutputSchema,
+  },
+  async ({
+    tokenAddress,
+    sellAmount,
+    accountName,
+    slippageBasisPoints,
+    priorityFee,
+  }) => {
+    try {
+      console.error(
+        `Quoting sell: ${tokenAddress}, amount: ${
+          sellAmount === "all" || sellAmount === 0 ? "ALL" : sellAmount
+        }`
+      );
+
+      const result = await quoteSell(
+        tokenAddress,
+        sellAmount,
+        accountName,
+        slippageBasisPoints,
+        priorityFee
+      );
+
+      const formattedResult = formatQuoteSellResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toQuoteSellStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error quoting sell:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error quoting sell: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-server.tool(
+server.registerTool(
   "list-accounts",
-  "List all accounts in the keys folder",
-  {},
+  {
+    description: "List all accounts in the keys folder",
+    inputSchema: {},
+    outputSchema: listAccountsOutputSchema,
+  },
   async () => {
     try {
       console.error("Listing accounts");
@@ -253,69 +737,1523 @@ server.tool(
       const result = await listAccounts();
       const formattedResult = formatListAccountsResult(result);
 
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
       return createMcpResponse(
-        formattedResult || "Error: No account information available"
+        formattedResult || "Error: No account information available",
+        toListAccountsStructuredContent(result)
       );
     } catch (error: any) {
       console.error("Error listing accounts:", error);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error listing accounts: ${
-              error?.message || "Unknown error"
-            }`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error listing accounts: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "create-account",
+  {
+    description: "Create a new named account with a fresh keypair",
+    inputSchema: {
+      accountName: z.string().describe("Name of the account to create"),
+    },
+    outputSchema: accountOutputSchema,
+  },
+  async ({ accountName }) => {
+    try {
+      const result = await createAccount(accountName);
+      const formattedResult = formatCreateAccountResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error creating account:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error creating account: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "import-account",
+  {
+    description:
+      "Import an existing keypair as a named account from a base58 secret key, a JSON byte array or a key file",
+    inputSchema: {
+      accountName: z.string().describe("Name to store the account under"),
+      secretKey: z
+        .string()
+        .optional()
+        .describe(
+          "Base58 secret key (e.g. from Phantom) or JSON byte array of a 64 byte secret key or 32 byte seed"
+        ),
+      filePath: z
+        .string()
+        .optional()
+        .describe("Path to a file containing the secret key"),
+    },
+    outputSchema: accountOutputSchema,
+  },
+  async ({ accountName, secretKey, filePath }) => {
+    try {
+      const result = await importAccount(accountName, { secretKey, filePath });
+      const formattedResult = formatImportAccountResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error importing account:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error importing account: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "export-account",
+  {
+    description:
+      "Export an account's public key, and optionally its base58 secret key",
+    inputSchema: {
+      accountName: z.string().describe("Name of the account to export"),
+      includeSecret: z
+        .boolean()
+        .default(false)
+        .describe("Also return the base58 secret key"),
+      passphrase: z
+        .string()
+        .optional()
+        .describe(
+          "Keystore passphrase, required to export the secret of an encrypted account"
+        ),
+    },
+    outputSchema: exportAccountOutputSchema,
+  },
+  async ({ accountName, includeSecret, passphrase }) => {
+    try {
+      const result = await exportAccount(
+        accountName,
+        includeSecret,
+        passphrase
+      );
+      const formattedResult = formatExportAccountResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error exporting account:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error exporting account: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "rename-account",
+  {
+    description: "Rename an account",
+    inputSchema: {
+      accountName: z.string().describe("Current name of the account"),
+      newName: z.string().describe("New name for the account"),
+    },
+    outputSchema: renameAccountOutputSchema,
+  },
+  async ({ accountName, newName }) => {
+    try {
+      const result = await renameAccount(accountName, newName);
+      const formattedResult = formatRenameAccountResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error renaming account:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error renaming account: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "archive-account",
+  {
+    description:
+      "Archive an account so it is no longer listed or used, without deleting its key",
+    inputSchema: {
+      accountName: z.string().describe("Name of the account to archive"),
+    },
+    outputSchema: archiveAccountOutputSchema,
+  },
+  async ({ accountName }) => {
+    try {
+      const result = await archiveAccount(accountName);
+      const formattedResult = formatArchiveAccountResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error archiving account:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error archiving account: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-server.tool(
+server.registerTool(
   "get-account-balance",
-  "Get the SOL and token balances for an account",
   {
-    accountName: z
-      .string()
-      .default("default")
-      .describe("Name of the account to check"),
-    tokenAddress: z
-      .string()
-      .optional()
-      .describe("Optional token address to check balance for"),
+    description: "Get the SOL and token balances for an account",
+    inputSchema: {
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account to check"),
+      tokenAddress: z
+        .string()
+        .optional()
+        .describe("Optional token address to check balance for"),
+    },
+    outputSchema: accountBalanceOutputSchema,
   },
   async ({ accountName, tokenAddress }) => {
     try {
       const result = await getAccountBalance(accountName, tokenAddress);
-      return {
-        content: [
-          {
-            type: "text",
-            text: result,
-          },
-        ],
-      };
+      const formattedResult = formatAccountBalanceResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toAccountBalanceStructuredContent(result)
+      );
     } catch (error: any) {
       console.error("Error getting account balance:", error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting account balance: ${
-              error?.message || "Unknown error"
-            }`,
-          },
-        ],
-      };
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting account balance: ${failure.error}`,
+        failure
+      );
     }
   }
 );
 
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Pump Fun MCP Server running on stdio");
+server.registerTool(
+  "transfer-sol",
+  {
+    description:
+      "Transfer SOL from a managed account to another managed account or an external address",
+    inputSchema: {
+      fromAccount: z.string().describe("Name of the account to send from"),
+      destination: z
+        .string()
+        .describe("Destination account name or base58 address"),
+      amount: z
+        .union([z.number().positive(), z.literal("max")])
+        .describe(
+          'Amount of SOL to send, or "max" to send everything except the rent and fee buffer'
+        ),
+    },
+    outputSchema: transferSolOutputSchema,
+  },
+  async ({ fromAccount, destination, amount }) => {
+    try {
+      console.error(
+        `Transferring ${amount} SOL from ${fromAccount} to ${destination}`
+      );
+
+      const result = await transferSol(fromAccount, destination, amount);
+      const formattedResult = formatTransferSolResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toTransferSolStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error transferring SOL:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error transferring SOL: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "transfer-token",
+  {
+    description:
+      "Transfer a Pump.fun SPL token from a managed account to another account or address, creating the destination token account if needed",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      fromAccount: z.string().describe("Name of the account to send from"),
+      destination: z
+        .string()
+        .describe("Destination account name or base58 address"),
+      amount: z
+        .union([z.number().positive(), z.literal("all")])
+        .default("all")
+        .describe('Amount of tokens to send, or "all" for the full balance'),
+    },
+    outputSchema: transferTokenOutputSchema,
+  },
+  async ({ tokenAddress, fromAccount, destination, amount }) => {
+    try {
+      console.error(
+        `Transferring ${amount} tokens of ${tokenAddress} from ${fromAccount} to ${destination}`
+      );
+
+      const result = await transferToken(
+        tokenAddress,
+        fromAccount,
+        destination,
+        amount
+      );
+      const formattedResult = formatTransferTokenResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toTransferTokenStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error transferring token:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error transferring token: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "get-portfolio",
+  {
+    description:
+      "List every token an account holds and value its Pump.fun positions in SOL at the current bonding curve price",
+    inputSchema: {
+      account: z
+        .string()
+        .default("default")
+        .describe("Account name or base58 address to value"),
+    },
+    outputSchema: portfolioOutputSchema,
+  },
+  async ({ account }) => {
+    try {
+      const result = await getPortfolio(account);
+      const formattedResult = formatPortfolioResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toPortfolioStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error getting portfolio:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting portfolio: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "get-trade-history",
+  {
+    description:
+      "List the Pump.fun buys, sells and token creations an account made on-chain, newest first",
+    inputSchema: {
+      account: z
+        .string()
+        .default("default")
+        .describe("Account name or base58 address"),
+      mint: z
+        .string()
+        .optional()
+        .describe("Only include trades of this token mint"),
+      startTime: z
+        .string()
+        .optional()
+        .describe(
+          "Only include trades at or after this time (ISO 8601 or unix seconds)"
+        ),
+      endTime: z
+        .string()
+        .optional()
+        .describe(
+          "Only include trades at or before this time (ISO 8601 or unix seconds)"
+        ),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(100)
+        .default(20)
+        .describe("Maximum number of trades to return"),
+      cursor: z
+        .string()
+        .optional()
+        .describe("nextCursor from a previous call, to continue further back"),
+    },
+    outputSchema: tradeHistoryOutputSchema,
+  },
+  async ({ account, mint, startTime, endTime, limit, cursor }) => {
+    try {
+      const result = await getTradeHistory(account, {
+        mint,
+        startTime,
+        endTime,
+        limit,
+        before: cursor,
+      });
+      const formattedResult = formatTradeHistoryResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toTradeHistoryStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error getting trade history:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting trade history: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "get-pnl",
+  {
+    description:
+      "Report realized and unrealized profit and loss from the local trade journal, using FIFO cost basis and the current bonding curve price",
+    inputSchema: {
+      accountName: z
+        .string()
+        .optional()
+        .describe("Only include trades by this account name or address"),
+      tokenAddress: z
+        .string()
+        .optional()
+        .describe("Only include trades of this token mint"),
+    },
+    outputSchema: pnlOutputSchema,
+  },
+  async ({ accountName, tokenAddress }) => {
+    try {
+      const result = await getPnl(accountName, tokenAddress);
+      const formattedResult = formatPnlResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, toPnlStructuredContent(result));
+    } catch (error: any) {
+      console.error("Error computing profit and loss:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error computing profit and loss: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "simulate-trade",
+  {
+    description:
+      "Simulate a Pump.fun buy or sell on the token's bonding curve or PumpSwap pool without signing it, reporting compute units, expected balance changes and decoded program errors",
+    inputSchema: {
+      side: z
+        .enum(["buy", "sell"])
+        .describe("Whether to simulate a buy or a sell"),
+      tokenAddress: z.string().describe("The token's mint address"),
+      amount: z
+        .number()
+        .min(0)
+        .describe("SOL to spend for a buy, or tokens to sell (0 for all)"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Account name or base58 address to simulate as"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      priorityFee: priorityFeeInputSchema,
+    },
+    outputSchema: simulateTradeOutputSchema,
+  },
+  async ({
+    side,
+    tokenAddress,
+    amount,
+    accountName,
+    slippageBasisPoints,
+    priorityFee,
+  }) => {
+    try {
+      const result = await simulateTrade(
+        side,
+        tokenAddress,
+        amount,
+        accountName,
+        slippageBasisPoints,
+        priorityFee
+      );
+      const formattedResult = formatSimulateTradeResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toSimulateTradeStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error simulating trade:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error simulating trade: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "get-spending-budget",
+  {
+    description:
+      "Show the spending policy limits for an account and how much of its rolling 24 hour budget remains",
+    inputSchema: {
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Account name or base58 address to check"),
+    },
+    outputSchema: spendingBudgetOutputSchema,
+  },
+  async ({ accountName }) => {
+    try {
+      const result = await getSpendingBudget(accountName);
+      const formattedResult = formatSpendingBudgetResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toSpendingBudgetStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error getting spending budget:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting spending budget: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "place-sell-order",
+  {
+    description:
+      "Place a take-profit or stop-loss order that sells a Pump.fun position when its price crosses a trigger",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      type: z
+        .enum(["take-profit", "stop-loss"])
+        .describe(
+          "take-profit sells when the price rises to the trigger, stop-loss when it falls to it"
+        ),
+      triggerPrice: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Trigger price in SOL per token"),
+      changePercent: z
+        .number()
+        .optional()
+        .describe(
+          "Trigger relative to the entry price instead, e.g. 100 when the price doubles or -40 after a 40% drop"
+        ),
+      entryPrice: z
+        .number()
+        .positive()
+        .optional()
+        .describe(
+          "Entry price for changePercent (defaults to the average cost in the trade journal, or the current price)"
+        ),
+      sellPercent: z
+        .number()
+        .gt(0)
+        .max(100)
+        .default(100)
+        .describe("Percentage of the balance held when triggered to sell"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account holding the tokens"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+    },
+    outputSchema: placeSellOrderOutputSchema,
+  },
+  async ({
+    tokenAddress,
+    type,
+    triggerPrice,
+    changePercent,
+    entryPrice,
+    sellPercent,
+    accountName,
+    slippageBasisPoints,
+  }) => {
+    try {
+      const result = await placeSellOrder(
+        tokenAddress,
+        type,
+        { triggerPrice, changePercent },
+        accountName,
+        sellPercent,
+        slippageBasisPoints,
+        entryPrice
+      );
+      const formattedResult = formatPlaceSellOrderResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        order: toSellOrderStructuredContent(result.order),
+        currentPrice: String(result.currentPrice),
+      });
+    } catch (error: any) {
+      console.error("Error placing sell order:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error placing sell order: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "list-sell-orders",
+  {
+    description: "List take-profit and stop-loss orders",
+    inputSchema: {
+      accountName: z
+        .string()
+        .optional()
+        .describe("Only orders for this account"),
+      tokenAddress: z
+        .string()
+        .optional()
+        .describe("Only orders for this token"),
+      status: z
+        .enum(["open", "executing", "filled", "failed", "cancelled", "all"])
+        .default("open")
+        .describe("Only orders with this status"),
+    },
+    outputSchema: listSellOrdersOutputSchema,
+  },
+  async ({ accountName, tokenAddress, status }) => {
+    try {
+      const result = await listSellOrders({
+        accountName,
+        tokenAddress,
+        status,
+      });
+      const formattedResult = formatListSellOrdersResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        status: result.status,
+        orders: result.orders.map(toSellOrderStructuredContent),
+      });
+    } catch (error: any) {
+      console.error("Error listing sell orders:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error listing sell orders: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "amend-sell-order",
+  {
+    description: "Change the trigger, size or slippage of an open sell order",
+    inputSchema: {
+      orderId: z.string().describe("The order id"),
+      triggerPrice: z
+        .number()
+        .positive()
+        .optional()
+        .describe("New trigger price in SOL per token"),
+      changePercent: z
+        .number()
+        .optional()
+        .describe("New trigger relative to the order's entry price"),
+      sellPercent: z
+        .number()
+        .gt(0)
+        .max(100)
+        .optional()
+        .describe("New percentage of the balance to sell"),
+      slippageBasisPoints: z
+        .number()
+        .optional()
+        .describe("New slippage tolerance in basis points"),
+    },
+    outputSchema: sellOrderOutputSchema,
+  },
+  async ({
+    orderId,
+    triggerPrice,
+    changePercent,
+    sellPercent,
+    slippageBasisPoints,
+  }) => {
+    try {
+      const result = await amendSellOrder(orderId, {
+        triggerPrice,
+        changePercent,
+        sellPercent,
+        slippageBasisPoints,
+      });
+      const formattedResult = formatAmendSellOrderResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        order: toSellOrderStructuredContent(result.order),
+      });
+    } catch (error: any) {
+      console.error("Error amending sell order:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error amending sell order: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "cancel-sell-order",
+  {
+    description: "Cancel an open sell order",
+    inputSchema: {
+      orderId: z.string().describe("The order id"),
+    },
+    outputSchema: sellOrderOutputSchema,
+  },
+  async ({ orderId }) => {
+    try {
+      const result = await cancelSellOrder(orderId);
+      const formattedResult = formatCancelSellOrderResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        order: toSellOrderStructuredContent(result.order),
+      });
+    } catch (error: any) {
+      console.error("Error cancelling sell order:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error cancelling sell order: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "create-dca-schedule",
+  {
+    description:
+      "Schedule recurring buys of a Pump.fun token: a fixed SOL amount every N minutes, a set number of times, optionally only below a price ceiling",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      amountSol: z.number().positive().describe("Amount to buy per run in SOL"),
+      intervalMinutes: z.number().min(1).describe("Minutes between buys"),
+      totalBuys: z
+        .number()
+        .int()
+        .min(1)
+        .describe("Number of buys before the schedule completes"),
+      maxPrice: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Skip a run when the price is above this many SOL per token"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the account to buy with"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: createDcaScheduleOutputSchema,
+  },
+  async ({
+    tokenAddress,
+    amountSol,
+    intervalMinutes,
+    totalBuys,
+    maxPrice,
+    accountName,
+    slippageBasisPoints,
+    confirmationToken,
+  }) => {
+    try {
+      const rejection = await requireConfirmation(server.server, {
+        tool: "create-dca-schedule",
+        args: {
+          tokenAddress,
+          amountSol,
+          intervalMinutes,
+          totalBuys,
+          maxPrice,
+          accountName,
+          slippageBasisPoints,
+        },
+        confirmationToken,
+        solAmount: getDcaScheduleSolAmount(amountSol, totalBuys),
+        describe: () =>
+          describeDcaSchedule(
+            tokenAddress,
+            amountSol,
+            intervalMinutes,
+            totalBuys,
+            accountName,
+            maxPrice
+          ),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
+      const result = await createDcaSchedule(
+        tokenAddress,
+        amountSol,
+        intervalMinutes,
+        totalBuys,
+        accountName,
+        maxPrice,
+        slippageBasisPoints
+      );
+      const formattedResult = formatCreateDcaScheduleResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        schedule: toDcaScheduleStructuredContent(result.schedule),
+        currentPrice: String(result.currentPrice),
+      });
+    } catch (error: any) {
+      console.error("Error creating DCA schedule:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error creating DCA schedule: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "list-dca-schedules",
+  {
+    description:
+      "List DCA schedules with their progress and the outcome of every run",
+    inputSchema: {
+      accountName: z
+        .string()
+        .optional()
+        .describe("Only schedules for this account"),
+      tokenAddress: z
+        .string()
+        .optional()
+        .describe("Only schedules for this token"),
+      status: z
+        .enum(["active", "paused", "completed", "cancelled", "failed", "all"])
+        .default("all")
+        .describe("Only schedules with this status"),
+    },
+    outputSchema: listDcaSchedulesOutputSchema,
+  },
+  async ({ accountName, tokenAddress, status }) => {
+    try {
+      const result = await listDcaSchedules({
+        accountName,
+        tokenAddress,
+        status,
+      });
+      const formattedResult = formatListDcaSchedulesResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        status: result.status,
+        schedules: result.schedules.map(toDcaScheduleStructuredContent),
+      });
+    } catch (error: any) {
+      console.error("Error listing DCA schedules:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error listing DCA schedules: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "pause-dca-schedule",
+  {
+    description:
+      "Pause an active DCA schedule so it stops buying until resumed",
+    inputSchema: {
+      scheduleId: z.string().describe("The schedule id"),
+    },
+    outputSchema: dcaScheduleOutputSchema,
+  },
+  async ({ scheduleId }) => {
+    try {
+      const result = await pauseDcaSchedule(scheduleId);
+      const formattedResult = formatUpdateDcaScheduleResult("Paused", result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        schedule: toDcaScheduleStructuredContent(result.schedule),
+      });
+    } catch (error: any) {
+      console.error("Error pausing DCA schedule:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error pausing DCA schedule: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "resume-dca-schedule",
+  {
+    description: "Resume a paused DCA schedule",
+    inputSchema: {
+      scheduleId: z.string().describe("The schedule id"),
+    },
+    outputSchema: dcaScheduleOutputSchema,
+  },
+  async ({ scheduleId }) => {
+    try {
+      const result = await resumeDcaSchedule(scheduleId);
+      const formattedResult = formatUpdateDcaScheduleResult("Resumed", result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        schedule: toDcaScheduleStructuredContent(result.schedule),
+      });
+    } catch (error: any) {
+      console.error("Error resuming DCA schedule:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error resuming DCA schedule: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "cancel-dca-schedule",
+  {
+    description: "Cancel an active or paused DCA schedule",
+    inputSchema: {
+      scheduleId: z.string().describe("The schedule id"),
+    },
+    outputSchema: dcaScheduleOutputSchema,
+  },
+  async ({ scheduleId }) => {
+    try {
+      const result = await cancelDcaSchedule(scheduleId);
+      const formattedResult = formatUpdateDcaScheduleResult(
+        "Cancelled",
+        result
+      );
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        schedule: toDcaScheduleStructuredContent(result.schedule),
+      });
+    } catch (error: any) {
+      console.error("Error cancelling DCA schedule:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error cancelling DCA schedule: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "batch-buy",
+  {
+    description:
+      "Buy a Pump.fun token from several managed accounts at once, with per-account amounts or a total split evenly. All accounts are checked before anything is sent.",
+    inputSchema: {
+      tokenAddress: z.string().describe("The token's mint address"),
+      allocations: z
+        .array(
+          z.object({
+            accountName: z.string().describe("Name of the account"),
+            amountSol: z.number().min(0.0001).describe("Amount to buy in SOL"),
+          })
+        )
+        .optional()
+        .describe("Accounts with the SOL amount each one buys"),
+      accountNames: z
+        .array(z.string())
+        .optional()
+        .describe("Accounts to split totalSol across evenly"),
+      totalSol: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Total SOL to split evenly across accountNames"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_BATCH_CONCURRENCY)
+        .default(DEFAULT_BATCH_CONCURRENCY)
+        .describe("How many buys to send at the same time"),
+      priorityFee: priorityFeeInputSchema,
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: batchBuyOutputSchema,
+  },
+  async ({
+    tokenAddress,
+    allocations,
+    accountNames,
+    totalSol,
+    slippageBasisPoints,
+    concurrency,
+    priorityFee,
+    confirmationToken,
+  }) => {
+    try {
+      const request = { allocations, accountNames, totalSol };
+
+      const rejection = await requireConfirmation(server.server, {
+        tool: "batch-buy",
+        args: {
+          tokenAddress,
+          ...request,
+          slippageBasisPoints,
+          concurrency,
+          priorityFee,
+        },
+        confirmationToken,
+        solAmount: getBatchBuySolAmount(request),
+        describe: () => describeBatchBuy(tokenAddress, request),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
+      console.error(`Batch buying token: ${tokenAddress}`);
+
+      const result = await batchBuy(
+        tokenAddress,
+        request,
+        slippageBasisPoints,
+        concurrency,
+        priorityFee
+      );
+      const formattedResult = formatBatchBuyResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toBatchBuyStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error in batch buy:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error in batch buy: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "launch-bundle",
+  {
+    description:
+      "Create a new Pump.fun token and buy it from the creator and other managed accounts in one bundle of versioned transactions",
+    inputSchema: {
+      name: z.string().describe("Token name"),
+      symbol: z.string().describe("Token symbol"),
+      description: z.string().describe("Token description"),
+      imageUrl: z.string().optional().describe("URL to token image (optional)"),
+      initialBuyAmount: z
+        .number()
+        .min(0.0001)
+        .describe("The creator's initial buy amount in SOL"),
+      buyers: z
+        .array(
+          z.object({
+            accountName: z.string().describe("Name of the account"),
+            amountSol: z.number().min(0.0001).describe("Amount to buy in SOL"),
+          })
+        )
+        .min(1)
+        .describe("Other managed accounts that buy in the same bundle"),
+      accountName: z
+        .string()
+        .default("default")
+        .describe("Name of the creator account"),
+      slippageBasisPoints: z
+        .number()
+        .default(100)
+        .describe("Slippage tolerance in basis points (1% = 100)"),
+      priorityFee: priorityFeeInputSchema,
+      confirmationToken: confirmationTokenInputSchema,
+    },
+    outputSchema: launchBundleOutputSchema,
+  },
+  async ({
+    name,
+    symbol,
+    description,
+    imageUrl,
+    initialBuyAmount,
+    buyers,
+    accountName,
+    slippageBasisPoints,
+    priorityFee,
+    confirmationToken,
+  }) => {
+    try {
+      const rejection = await requireConfirmation(server.server, {
+        tool: "launch-bundle",
+        args: {
+          name,
+          symbol,
+          description,
+          imageUrl,
+          initialBuyAmount,
+          buyers,
+          accountName,
+          slippageBasisPoints,
+          priorityFee,
+        },
+        confirmationToken,
+        solAmount: getLaunchBundleSolAmount(
+          initialBuyAmount,
+          buyers,
+          accountName
+        ),
+        describe: () =>
+          describeLaunchBundle(
+            name,
+            symbol,
+            initialBuyAmount,
+            buyers,
+            accountName
+          ),
+      });
+      if (rejection) {
+        return createMcpErrorResponse(rejection.error, rejection);
+      }
+
+      const result = await launchBundle(
+        name,
+        symbol,
+        description,
+        imageUrl,
+        initialBuyAmount,
+        buyers,
+        accountName,
+        slippageBasisPoints,
+        priorityFee
+      );
+      const formattedResult = formatLaunchBundleResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(
+        formattedResult,
+        toLaunchBundleStructuredContent(result)
+      );
+    } catch (error: any) {
+      console.error("Error launching bundle:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error launching bundle: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "subscribe-events",
+  {
+    description:
+      "Subscribe to live Pump.fun events: new launches, trades or bonding curve completions, optionally only for some mints. Matching events are sent as logging notifications and kept for get-recent-events",
+    inputSchema: {
+      kinds: eventKindsInputSchema
+        .default([...EVENT_KINDS])
+        .describe(
+          "Event kinds to receive: create, trade and/or complete (defaults to all)"
+        ),
+      mints: z
+        .array(z.string())
+        .optional()
+        .describe("Only events for these mints (defaults to every mint)"),
+    },
+    outputSchema: eventSubscriptionOutputSchema,
+  },
+  async ({ kinds, mints }) => {
+    try {
+      const result = await subscribeEvents(kinds, mints);
+      const formattedResult = formatSubscribeEventsResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        subscription: result.subscription,
+        streaming: result.streaming,
+      });
+    } catch (error: any) {
+      console.error("Error subscribing to events:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error subscribing to events: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "unsubscribe-events",
+  {
+    description:
+      "Remove an event subscription. The event stream disconnects when no subscriptions are left",
+    inputSchema: {
+      subscriptionId: z.string().describe("The subscription's id"),
+    },
+    outputSchema: eventSubscriptionOutputSchema,
+  },
+  async ({ subscriptionId }) => {
+    try {
+      const result = await unsubscribeEvents(subscriptionId);
+      const formattedResult = formatUnsubscribeEventsResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        subscription: result.subscription,
+        streaming: result.streaming,
+      });
+    } catch (error: any) {
+      console.error("Error unsubscribing from events:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error unsubscribing from events: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+server.registerTool(
+  "get-recent-events",
+  {
+    description:
+      "List buffered Pump.fun events received while subscribed, newest last, along with the active subscriptions",
+    inputSchema: {
+      kinds: eventKindsInputSchema
+        .optional()
+        .describe("Only events of these kinds"),
+      mint: z.string().optional().describe("Only events for this mint"),
+      afterId: z
+        .number()
+        .int()
+        .optional()
+        .describe("Only events with a higher id, to poll for new events"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_RECENT_EVENTS)
+        .default(DEFAULT_RECENT_EVENTS)
+        .describe("Maximum number of events to return, keeping the newest"),
+    },
+    outputSchema: recentEventsOutputSchema,
+  },
+  async ({ kinds, mint, afterId, limit }) => {
+    try {
+      const result = await getRecentEvents({ kinds, mint, afterId, limit });
+      const formattedResult = formatRecentEventsResult(result);
+
+      if (!result.success) {
+        return createMcpErrorResponse(formattedResult, result);
+      }
+
+      return createMcpResponse(formattedResult, {
+        streaming: result.streaming,
+        subscriptions: result.subscriptions,
+        events: result.events.map(toEventStructuredContent),
+      });
+    } catch (error: any) {
+      console.error("Error getting recent events:", error);
+      const failure = errorResult(error);
+      return createMcpErrorResponse(
+        `Error getting recent events: ${failure.error}`,
+        failure
+      );
+    }
+  }
+);
+
+async function completeAccountName(value: string) {
+  const names = await listAccountNames();
+  return names.filter((name) => name.startsWith(value));
+}
+
+server.registerResource(
+  "accounts",
+  ACCOUNTS_RESOURCE_URI,
+  {
+    title: "Accounts",
+    description: "All managed accounts with their public keys",
+    mimeType: "application/json",
+  },
+  async (uri) => ({ contents: [await readResource(uri.href)] })
+);
+
+server.registerResource(
+  "account",
+  new ResourceTemplate(ACCOUNT_RESOURCE_TEMPLATE, {
+    list: async () => ({
+      resources: (await listAccountNames()).map((name) => ({
+        uri: getAccountResourceUri(name),
+        name: `account-${name}`,
+        title: `Account ${name}`,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: { name: completeAccountName },
+  }),
+  {
+    title: "Account Balance",
+    description: "SOL and token balances of a managed account",
+    mimeType: "application/json",
+  },
+  async (uri) => ({ contents: [await readResource(uri.href)] })
+);
+
+server.registerResource(
+  "positions",
+  new ResourceTemplate(POSITIONS_RESOURCE_TEMPLATE, {
+    list: async () => ({
+      resources: (await listAccountNames()).map((name) => ({
+        uri: getPositionsResourceUri(name),
+        name: `positions-${name}`,
+        title: `Positions of ${name}`,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: { name: completeAccountName },
+  }),
+  {
+    title: "Account Positions",
+    description:
+      "Token positions of a managed account valued at current prices, as returned by get-portfolio",
+    mimeType: "application/json",
+  },
+  async (uri) => ({ contents: [await readResource(uri.href)] })
+);
+
+server.registerResource(
+  "token",
+  new ResourceTemplate(TOKEN_RESOURCE_TEMPLATE, { list: undefined }),
+  {
+    title: "Token",
+    description:
+      "Bonding curve or PumpSwap pool state of a token, as returned by get-token-info",
+    mimeType: "application/json",
+  },
+  async (uri) => ({ contents: [await readResource(uri.href)] })
+);
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await subscribeResource(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  unsubscribeResource(request.params.uri);
+  return {};
+});
+
+async function main() {
+  const keystore = await unlockKeystore(path.resolve(rootDir, ".keys"));
+  console.error(keystore.message);
+
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error("Pump Fun MCP Server running on stdio");
+
+  startSellOrderWatcher();
+  startDcaScheduler();
+  startResourceWatcher();
+
+  setEventNotifier((subscription, event) =>
+    server.server.sendLoggingMessage({
+      level: "info",
+      logger: "pumpfun-events",
+      data: {
+        subscriptionId: subscription.id,
+        event: toEventStructuredContent(event),
+      },
+    })
+  );
+  setResourceNotifier((uri) => server.server.sendResourceUpdated({ uri }));
 }
 
 main().catch((error) => {
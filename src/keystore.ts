@@ -0,0 +1,278 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { Writable } from "stream";
+import tty from "tty";
+
+const KEYSTORE_VERSION = 1;
+const CIPHER = "aes-256-gcm";
+const SCRYPT_PARAMS = { n: 32768, r: 8, p: 1, dklen: 32 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+
+type EncryptedKeyFile = {
+  version: number;
+  publicKey: string;
+  crypto: {
+    cipher: string;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+    kdf: "scrypt";
+    kdfparams: {
+      n: number;
+      r: number;
+      p: number;
+      dklen: number;
+      salt: string;
+    };
+  };
+};
+
+let unlockedPassphrase: string | null = null;
+const derivedKeyCache = new Map<string, Buffer>();
+
+function deriveKey(
+  passphrase: string,
+  kdfparams: EncryptedKeyFile["crypto"]["kdfparams"]
+) {
+  const cacheKey = `${kdfparams.salt}:${kdfparams.n}:${kdfparams.r}:${kdfparams.p}:${passphrase}`;
+  const cached = derivedKeyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const key = crypto.scryptSync(
+    passphrase,
+    Buffer.from(kdfparams.salt, "hex"),
+    kdfparams.dklen,
+    {
+      N: kdfparams.n,
+      r: kdfparams.r,
+      p: kdfparams.p,
+      maxmem: SCRYPT_MAXMEM,
+    }
+  );
+  derivedKeyCache.set(cacheKey, key);
+  return key;
+}
+
+export function isEncryptedKeyFile(data: unknown): data is EncryptedKeyFile {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    !Array.isArray(data) &&
+    (data as EncryptedKeyFile).version === KEYSTORE_VERSION &&
+    typeof (data as EncryptedKeyFile).crypto === "object"
+  );
+}
+
+export function isPlaintextKeyAllowed() {
+  return process.env.ALLOW_PLAINTEXT_KEYS === "true";
+}
+
+export function encryptKeypair(
+  keypair: Keypair,
+  passphrase: string
+): EncryptedKeyFile {
+  const salt = crypto.randomBytes(32).toString("hex");
+  const kdfparams = { ...SCRYPT_PARAMS, salt };
+  const key = deriveKey(passphrase, kdfparams);
+  const iv = crypto.randomBytes(12);
+
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(keypair.secretKey)),
+    cipher.final(),
+  ]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    publicKey: keypair.publicKey.toString(),
+    crypto: {
+      cipher: CIPHER,
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt",
+      kdfparams,
+    },
+  };
+}
+
+export function decryptKeypair(
+  keyFile: EncryptedKeyFile,
+  passphrase: string
+): Keypair {
+  const key = deriveKey(passphrase, keyFile.crypto.kdfparams);
+  const decipher = crypto.createDecipheriv(
+    CIPHER,
+    key,
+    Buffer.from(keyFile.crypto.iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(keyFile.crypto.tag, "hex"));
+
+  let secretKey: Buffer;
+  try {
+    secretKey = Buffer.concat([
+      decipher.update(Buffer.from(keyFile.crypto.ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    throw new Error("Invalid keystore passphrase");
+  }
+
+  return Keypair.fromSecretKey(new Uint8Array(secretKey));
+}
+
+export function getKeystorePassphrase() {
+  const passphrase = unlockedPassphrase || process.env.KEYSTORE_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error(
+      "Keystore is locked. Set the KEYSTORE_PASSPHRASE environment variable or enter the passphrase when the server starts."
+    );
+  }
+
+  return passphrase;
+}
+
+function readKeyFileData(filePath: string): unknown {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+function plaintextKeyError(filePath: string) {
+  return new Error(
+    `Key file ${path.basename(
+      filePath
+    )} is stored as plaintext. Run "node build/migrate-keys.js" to encrypt it, or set ALLOW_PLAINTEXT_KEYS=true to read it as is.`
+  );
+}
+
+export function readKeypairFile(filePath: string): Keypair {
+  const data = readKeyFileData(filePath);
+
+  if (isEncryptedKeyFile(data)) {
+    return decryptKeypair(data, getKeystorePassphrase());
+  }
+
+  if (Array.isArray(data)) {
+    if (!isPlaintextKeyAllowed()) {
+      throw plaintextKeyError(filePath);
+    }
+
+    return Keypair.fromSecretKey(new Uint8Array(data));
+  }
+
+  throw new Error(`Unrecognized key file format: ${path.basename(filePath)}`);
+}
+
+export function readPublicKeyFromFile(filePath: string): PublicKey {
+  const data = readKeyFileData(filePath);
+
+  if (isEncryptedKeyFile(data)) {
+    return new PublicKey(data.publicKey);
+  }
+
+  if (Array.isArray(data)) {
+    if (!isPlaintextKeyAllowed()) {
+      throw plaintextKeyError(filePath);
+    }
+
+    return Keypair.fromSecretKey(new Uint8Array(data)).publicKey;
+  }
+
+  throw new Error(`Unrecognized key file format: ${path.basename(filePath)}`);
+}
+
+export function writeKeypairFile(filePath: string, keypair: Keypair) {
+  const keyFile = encryptKeypair(keypair, getKeystorePassphrase());
+  const tempPath = `${filePath}.tmp`;
+
+  fs.writeFileSync(tempPath, JSON.stringify(keyFile, null, 2), {
+    mode: 0o600,
+  });
+  fs.renameSync(tempPath, filePath);
+}
+
+function promptForPassphrase(): Promise<string | null> {
+  let fd: number;
+  try {
+    fd = fs.openSync("/dev/tty", "r+");
+  } catch (error) {
+    return Promise.resolve(null);
+  }
+
+  const input = new tty.ReadStream(fd);
+  const output = new tty.WriteStream(fd);
+  // readline echoes what is typed to its output, so it gets one that discards
+  // everything while the prompt goes to the terminal directly
+  const mutedOutput = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input,
+    output: mutedOutput,
+    terminal: true,
+  });
+
+  return new Promise((resolve) => {
+    output.write("Keystore passphrase: ");
+
+    rl.question("", (answer) => {
+      output.write("\n");
+      rl.close();
+      input.destroy();
+      output.destroy();
+      resolve(answer || null);
+    });
+  });
+}
+
+export async function unlockKeystore(keysFolder: string) {
+  const passphrase =
+    process.env.KEYSTORE_PASSPHRASE || (await promptForPassphrase());
+
+  if (!passphrase) {
+    return {
+      unlocked: false,
+      message:
+        "Keystore is locked. Set KEYSTORE_PASSPHRASE to sign transactions.",
+    };
+  }
+
+  if (fs.existsSync(keysFolder)) {
+    // Any encrypted file will do to check the passphrase, so files that are
+    // not key files do not stop the server from starting
+    const encryptedFile = fs
+      .readdirSync(keysFolder)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => {
+        try {
+          return readKeyFileData(path.join(keysFolder, file));
+        } catch (error: any) {
+          console.error(`Skipping unreadable key file ${file}:`, error.message);
+          return null;
+        }
+      })
+      .find(isEncryptedKeyFile);
+
+    if (encryptedFile) {
+      decryptKeypair(encryptedFile, passphrase);
+    }
+  }
+
+  unlockedPassphrase = passphrase;
+  return { unlocked: true, message: "Keystore unlocked" };
+}
+
+export default {
+  encryptKeypair,
+  decryptKeypair,
+  readKeypairFile,
+  readPublicKeyFromFile,
+  writeKeypairFile,
+  unlockKeystore,
+};
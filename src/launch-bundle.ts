@@ -0,0 +1,554 @@
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { calculateWithSlippageBuy } from "pumpdotfun-sdk";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { resolveAccount } from "./list-accounts.js";
+import { recordTrade } from "./trade-journal.js";
+import {
+  buildCreateAndBuyTransaction,
+  buildTokenMetadata,
+  getCreatePriorityFeeAccounts,
+  saveMintKeypair,
+} from "./create-token.js";
+import { BatchBuyAllocation, resolveAllocations, sumSol } from "./batch-buy.js";
+import {
+  applyBuy,
+  getInitialBondingCurve,
+  solToLamports,
+  tokenUnitsToAmount,
+} from "./bonding-curve.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import {
+  SendStatus,
+  buildTransaction,
+  getConfiguredCommitment,
+  toSendError,
+} from "./send-transaction.js";
+import { simulateTransaction, toSimulationError } from "./simulate-trade.js";
+import {
+  confirmBundle,
+  getBundleSender,
+  getSignature,
+} from "./bundle-sender.js";
+import { ErrorCode, PumpfunError, errorResult, toToolError } from "./errors.js";
+import { reserveSpending } from "./spending-policy.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const DEFAULT_SLIPPAGE_BASIS_POINTS = 100;
+// The creator pays rent for the mint, curve and metadata accounts
+const CREATE_FEE_RESERVE_SOL = 0.003;
+const BUY_FEE_RESERVE_SOL = 0.001;
+
+export type LaunchLeg = {
+  role: "creator" | "buyer";
+  accountName: string;
+  publicKey: string;
+  amountSol: number;
+  expectedTokens: number;
+  status: SendStatus;
+  signature: string;
+  tokensReceived: number | null;
+  error?: string;
+  code?: ErrorCode;
+};
+
+type PreparedLeg = {
+  role: LaunchLeg["role"];
+  accountName: string;
+  signer: Keypair;
+  amountSol: number;
+  expectedTokens: number;
+  transaction: Transaction;
+};
+
+/**
+ * Creates a token and buys it from the creator and a list of other managed
+ * accounts in one bundle. Each account gets its own versioned transaction, and
+ * the buys after the creator's are priced against the curve as it will be
+ * once the earlier legs land.
+ */
+export async function launchBundle(
+  name: string,
+  symbol: string,
+  description: string,
+  imageUrl: string | undefined,
+  initialBuyAmount: number,
+  buyers: BatchBuyAllocation[],
+  creatorAccountName: string = "default",
+  slippageBasisPoints: number = DEFAULT_SLIPPAGE_BASIS_POINTS,
+  priorityFeeOptions: PriorityFeeOptions = {}
+) {
+  const releases: (() => void)[] = [];
+  try {
+    const { sdk, connection } = initializeSDK();
+    const sender = getBundleSender();
+
+    const allocations = resolveAllocations({ allocations: buyers });
+    if (
+      allocations.some(
+        (allocation) => allocation.accountName === creatorAccountName
+      )
+    ) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `The creator ${creatorAccountName} cannot also be one of the buyers; raise initialBuyAmount instead`,
+        { accountName: creatorAccountName }
+      );
+    }
+    if (allocations.length + 1 > sender.maxTransactions) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `The ${sender.name} bundle sender takes at most ${
+          sender.maxTransactions
+        } transactions, so a launch can have at most ${
+          sender.maxTransactions - 1
+        } buyers`,
+        { buyers: allocations.length, maxTransactions: sender.maxTransactions }
+      );
+    }
+
+    const mint = Keypair.generate();
+    const creator = await resolveAccount(creatorAccountName);
+    releases.push(
+      reserveSpending({
+        accountName: creatorAccountName,
+        publicKey: creator.publicKey,
+        side: "create",
+        solAmount: initialBuyAmount,
+        slippageBasisPoints,
+      })
+    );
+
+    const failures: { accountName: string; code: ErrorCode; error: string }[] =
+      [];
+    const buyerSigners = new Map<string, Keypair>();
+    for (const allocation of allocations) {
+      try {
+        const buyer = await resolveAccount(allocation.accountName);
+        releases.push(
+          reserveSpending({
+            accountName: allocation.accountName,
+            publicKey: buyer.publicKey,
+            side: "buy",
+            mint: mint.publicKey.toString(),
+            solAmount: allocation.amountSol,
+            slippageBasisPoints,
+          })
+        );
+        buyerSigners.set(allocation.accountName, buyer);
+      } catch (error) {
+        const toolError = toToolError(error);
+        failures.push({
+          accountName: allocation.accountName,
+          code: toolError.code,
+          error: toolError.message,
+        });
+      }
+    }
+
+    const tipLamports = sender.getTipAccount ? sender.tipLamports : 0;
+    const funded = [
+      {
+        accountName: creatorAccountName,
+        signer: creator,
+        required:
+          initialBuyAmount +
+          CREATE_FEE_RESERVE_SOL +
+          tipLamports / LAMPORTS_PER_SOL,
+      },
+      ...allocations
+        .filter((allocation) => buyerSigners.has(allocation.accountName))
+        .map((allocation) => ({
+          accountName: allocation.accountName,
+          signer: buyerSigners.get(allocation.accountName)!,
+          required: allocation.amountSol + BUY_FEE_RESERVE_SOL,
+        })),
+    ];
+    const accountInfos = await connection.getMultipleAccountsInfo(
+      funded.map((account) => account.signer.publicKey)
+    );
+    funded.forEach((account, index) => {
+      const balance = (accountInfos[index]?.lamports || 0) / LAMPORTS_PER_SOL;
+      if (balance < account.required) {
+        failures.push({
+          accountName: account.accountName,
+          code: "INSUFFICIENT_SOL",
+          error: `Insufficient SOL balance. Account ${account.signer.publicKey.toString()} has ${balance} SOL, but needs at least ${
+            account.required
+          } SOL.`,
+        });
+      }
+    });
+
+    if (failures.length > 0) {
+      const codes = new Set(failures.map((failure) => failure.code));
+      throw new PumpfunError(
+        codes.size === 1 ? failures[0].code : "INVALID_INPUT",
+        [
+          `Pre-checks failed for ${failures.length} accounts, so nothing was sent:`,
+          ...failures.map(
+            (failure) =>
+              `  ${failure.accountName}: ${failure.code}: ${failure.error}`
+          ),
+        ].join("\n"),
+        { failures }
+      );
+    }
+
+    const globalAccount = await sdk.getGlobalAccount();
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      getCreatePriorityFeeAccounts(globalAccount)
+    );
+
+    let bondingCurve = getInitialBondingCurve(globalAccount);
+    const creatorBuy = applyBuy(bondingCurve, solToLamports(initialBuyAmount));
+    bondingCurve = creatorBuy.bondingCurve;
+
+    const creatorTransaction = await buildCreateAndBuyTransaction(
+      sdk,
+      creator.publicKey,
+      mint,
+      buildTokenMetadata(name, symbol, description, imageUrl),
+      solToLamports(initialBuyAmount),
+      BigInt(slippageBasisPoints)
+    );
+    if (sender.getTipAccount && tipLamports > 0) {
+      creatorTransaction.add(
+        SystemProgram.transfer({
+          fromPubkey: creator.publicKey,
+          toPubkey: await sender.getTipAccount(),
+          lamports: tipLamports,
+        })
+      );
+    }
+
+    const legs: PreparedLeg[] = [
+      {
+        role: "creator",
+        accountName: creatorAccountName,
+        signer: creator,
+        amountSol: initialBuyAmount,
+        expectedTokens: tokenUnitsToAmount(creatorBuy.tokensOut),
+        transaction: creatorTransaction,
+      },
+    ];
+
+    for (const allocation of allocations) {
+      const buyer = buyerSigners.get(allocation.accountName)!;
+      const lamports = solToLamports(allocation.amountSol);
+      const buy = applyBuy(bondingCurve, lamports);
+      bondingCurve = buy.bondingCurve;
+
+      legs.push({
+        role: "buyer",
+        accountName: allocation.accountName,
+        signer: buyer,
+        amountSol: allocation.amountSol,
+        expectedTokens: tokenUnitsToAmount(buy.tokensOut),
+        transaction: await sdk.getBuyInstructions(
+          buyer.publicKey,
+          mint.publicKey,
+          globalAccount.feeRecipient,
+          buy.tokensOut,
+          calculateWithSlippageBuy(lamports, BigInt(slippageBasisPoints))
+        ),
+      });
+    }
+
+    // Only the creator's leg can be simulated, the buys need the new mint
+    const simulation = await simulateTransaction(
+      connection,
+      creatorTransaction,
+      creator.publicKey,
+      priorityFees,
+      mint.publicKey
+    );
+    if (!simulation.ok) {
+      console.error(`Simulation failed:`, simulation.error);
+      return errorResult(
+        toSimulationError(simulation, { mint: mint.publicKey.toString() })
+      );
+    }
+
+    const commitment = getConfiguredCommitment();
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash(commitment);
+    const transactions = legs.map((leg) => {
+      const transaction = buildTransaction(
+        leg.transaction,
+        leg.signer.publicKey,
+        blockhash,
+        priorityFees
+      );
+      transaction.sign(
+        leg.role === "creator" ? [leg.signer, mint] : [leg.signer]
+      );
+      return transaction;
+    });
+
+    console.error(
+      `Sending launch bundle of ${transactions.length} transactions through ${sender.name}`
+    );
+    const bundleId = await sender.sendBundle(connection, transactions);
+    const results = await confirmBundle(
+      connection,
+      transactions,
+      lastValidBlockHeight,
+      commitment
+    );
+
+    const tokenAddress = mint.publicKey.toString();
+    const creatorResult = results[0];
+    if (creatorResult.status === "confirmed") {
+      saveMintKeypair(mint);
+    }
+
+    const launchLegs: LaunchLeg[] = [];
+    for (const [index, leg] of legs.entries()) {
+      const result = results[index];
+      const publicKey = leg.signer.publicKey;
+
+      if (result.status !== "confirmed") {
+        const failure = errorResult(
+          toSendError(result, { accountName: leg.accountName })
+        );
+        launchLegs.push({
+          role: leg.role,
+          accountName: leg.accountName,
+          publicKey: publicKey.toString(),
+          amountSol: leg.amountSol,
+          expectedTokens: leg.expectedTokens,
+          status: result.status,
+          signature: result.signature || getSignature(transactions[index]),
+          tokensReceived: null,
+          error: failure.error,
+          code: failure.code,
+        });
+        continue;
+      }
+
+      const tokensReceived =
+        (await getSPLBalance(connection, mint.publicKey, publicKey)) || 0;
+      await recordTrade(sdk, {
+        accountName: leg.accountName,
+        publicKey,
+        mint: tokenAddress,
+        side: leg.role === "creator" ? "create" : "buy",
+        signature: result.signature,
+        transaction: result.transaction,
+        fallback: { solAmount: leg.amountSol, tokenAmount: tokensReceived },
+      });
+
+      launchLegs.push({
+        role: leg.role,
+        accountName: leg.accountName,
+        publicKey: publicKey.toString(),
+        amountSol: leg.amountSol,
+        expectedTokens: leg.expectedTokens,
+        status: "confirmed",
+        signature: result.signature,
+        tokensReceived,
+      });
+    }
+
+    if (creatorResult.status !== "confirmed") {
+      const failure = errorResult(
+        toSendError(creatorResult, { mint: tokenAddress, bundleId })
+      );
+      return {
+        ...failure,
+        error:
+          creatorResult.status === "unknown"
+            ? `The launch bundle could not be confirmed, so the token may still be created at ${tokenAddress}.\n${failure.error}`
+            : `The launch bundle did not land, so the token was not created.\n${failure.error}`,
+        context: { ...failure.context, legs: launchLegs },
+        status: creatorResult.status,
+      };
+    }
+
+    const confirmed = launchLegs.filter((leg) => leg.status === "confirmed");
+
+    return {
+      success: true as const,
+      tokenAddress,
+      tokenName: name,
+      tokenSymbol: symbol,
+      bundleId,
+      sender: sender.name,
+      tipLamports,
+      legs: launchLegs,
+      confirmedCount: confirmed.length,
+      failedCount: launchLegs.length - confirmed.length,
+      totalSolSpent: sumSol(confirmed),
+      priorityFees,
+      pumpfunUrl: `https://pump.fun/${tokenAddress}`,
+    };
+  } catch (error: any) {
+    console.error("Error launching bundle:", error);
+    return errorResult(error, { accountName: creatorAccountName });
+  } finally {
+    releases.forEach((release) => release());
+  }
+}
+
+export function formatLaunchBundleResult(
+  result: ReturnType<typeof launchBundle> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error launching bundle: ${result.error}`;
+  }
+
+  const lines = [
+    result.failedCount === 0
+      ? `Successfully launched token with a bundle of ${result.legs.length} transactions!`
+      : `Launched token, but ${result.failedCount} of ${result.legs.length} bundle transactions did not land`,
+    `Token Address: ${result.tokenAddress}`,
+    `Token Name: ${result.tokenName}`,
+    `Token Symbol: ${result.tokenSymbol}`,
+    `Bundle: ${result.bundleId} (${result.sender}${
+      result.tipLamports ? `, tip ${result.tipLamports} lamports` : ""
+    })`,
+    `Total Spent: ${result.totalSolSpent} SOL`,
+    `Priority Fee: ${formatPriorityFees(result.priorityFees)}`,
+    ``,
+    `Leg | Account | SOL | Expected Tokens | Tokens Received | Signature`,
+  ];
+
+  for (const leg of result.legs) {
+    lines.push(
+      `${leg.role} | ${leg.accountName} | ${leg.amountSol} | ${
+        leg.expectedTokens
+      } | ${leg.tokensReceived ?? "-"} | ${leg.signature}${
+        leg.status !== "confirmed" ? ` (${leg.status}, ${leg.code})` : ""
+      }`
+    );
+  }
+
+  lines.push(``, `Pump.fun URL: ${result.pumpfunUrl}`);
+  return lines.join("\n");
+}
+
+export const launchBundleOutputSchema = {
+  tokenAddress: z.string(),
+  tokenName: z.string(),
+  tokenSymbol: z.string(),
+  bundleId: z.string(),
+  sender: z.string(),
+  tipLamports: z.number(),
+  legs: z.array(
+    z.object({
+      role: z.enum(["creator", "buyer"]),
+      accountName: z.string(),
+      publicKey: z.string(),
+      amountSol: z.string(),
+      expectedTokens: z.string(),
+      status: z.enum(["confirmed", "failed", "expired", "unknown"]),
+      signature: z.string(),
+      tokensReceived: z.string().nullable(),
+      error: z.string().optional(),
+      code: z.string().optional(),
+    })
+  ),
+  confirmedCount: z.number(),
+  failedCount: z.number(),
+  totalSolSpent: z.string(),
+  priorityFees: priorityFeeOutputSchema,
+  pumpfunUrl: z.string(),
+};
+
+export function toLaunchBundleStructuredContent(
+  result: Extract<
+    ReturnType<typeof launchBundle> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    tokenName: result.tokenName,
+    tokenSymbol: result.tokenSymbol,
+    bundleId: result.bundleId,
+    sender: result.sender,
+    tipLamports: result.tipLamports,
+    legs: result.legs.map((leg) => ({
+      ...leg,
+      amountSol: String(leg.amountSol),
+      expectedTokens: String(leg.expectedTokens),
+      tokensReceived:
+        leg.tokensReceived !== null ? String(leg.tokensReceived) : null,
+    })),
+    confirmedCount: result.confirmedCount,
+    failedCount: result.failedCount,
+    totalSolSpent: String(result.totalSolSpent),
+    priorityFees: result.priorityFees,
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 5) {
+    console.error(
+      "Usage: node launch-bundle.js <name> <symbol> <description> <initial_buy_amount> <account:amount_sol,...> [creator_account] [image_url]"
+    );
+    console.error(
+      "Example: node launch-bundle.js MyToken MTK 'My first token' 0.5 alice:0.2,bob:0.1 default"
+    );
+    process.exit(1);
+  }
+
+  const buyers = args[4].split(",").map((buyer) => {
+    const [accountName, amountSol] = buyer.split(":");
+    return { accountName, amountSol: parseFloat(amountSol) };
+  });
+
+  try {
+    const result = await launchBundle(
+      args[0],
+      args[1],
+      args[2],
+      args[6],
+      parseFloat(args[3]),
+      buyers,
+      args[5] || "default"
+    );
+
+    console.log("\nResult:");
+    const formattedResult = formatLaunchBundleResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  launchBundle,
+  formatLaunchBundleResult,
+  toLaunchBundleStructuredContent,
+};
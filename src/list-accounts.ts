@@ -1,9 +1,13 @@
-import { Keypair } from "@solana/web3.js";
 import fs from "fs";
 import path from "path";
-import { rootDir } from "./utils.js";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { getOrCreateKeypair, rootDir } from "./utils.js";
+import { readKeypairFile, readPublicKeyFromFile } from "./keystore.js";
 import { createMcpResponse } from "./get-token-info.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { isValidAccountName, validateAccountName } from "./manage-accounts.js";
 import dotenv from "dotenv";
+import { z } from "zod";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
@@ -23,19 +27,13 @@ export async function listAccounts() {
         fs.mkdirSync(keysFolder, { recursive: true });
         console.error(`Keys folder created successfully`);
         return {
-          success: true,
-          message: `No accounts found. Keys folder created at ${keysFolder}. Use the create-token or buy-token tools to create an account.`,
+          success: true as const,
+          message: `No accounts found. Keys folder created at ${keysFolder}. Use the create-account or import-account tools to add an account.`,
           accounts: [],
         };
       } catch (mkdirError: any) {
         console.error(`Error creating keys folder:`, mkdirError);
-        return {
-          success: false,
-          error: `Error creating keys folder: ${
-            mkdirError.message || JSON.stringify(mkdirError)
-          }`,
-          accounts: [],
-        };
+        return { ...errorResult(mkdirError, { keysFolder }), accounts: [] };
       }
     }
 
@@ -49,11 +47,8 @@ export async function listAccounts() {
         const name = file.replace(".json", "");
         console.error(`Processing account file: ${file}`);
         try {
-          const keypairData = JSON.parse(
-            fs.readFileSync(path.join(keysFolder, file), "utf-8")
-          );
-          const keypair = Keypair.fromSecretKey(new Uint8Array(keypairData));
-          return { name, publicKey: keypair.publicKey.toString() };
+          const publicKey = readPublicKeyFromFile(path.join(keysFolder, file));
+          return { name, publicKey: publicKey.toString() };
         } catch (error: any) {
           console.error(`Error processing account file ${file}:`, error);
           return { name, publicKey: "Error reading keypair" };
@@ -64,39 +59,117 @@ export async function listAccounts() {
 
     if (accounts.length === 0) {
       return {
-        success: true,
-        message: `No accounts found in ${keysFolder}. Use the create-token or buy-token tools to create an account.`,
+        success: true as const,
+        message: `No accounts found in ${keysFolder}. Use the create-account or import-account tools to add an account.`,
         accounts: [],
       };
     }
 
     return {
-      success: true,
+      success: true as const,
       message: `Accounts in ${keysFolder}:`,
       accounts,
     };
   } catch (error: any) {
     console.error("Error listing accounts:", error);
-    console.error("Error stack:", error.stack);
-
-    let errorMessage = "Unknown error";
-    if (error) {
-      if (typeof error === "object") {
-        if (error.message) {
-          errorMessage = error.message;
-        } else {
-          try {
-            errorMessage = JSON.stringify(error);
-          } catch (e) {
-            errorMessage = "Error object could not be stringified";
-          }
-        }
-      } else {
-        errorMessage = String(error);
-      }
+    return { ...errorResult(error), accounts: [] };
+  }
+}
+
+function getEditDistance(a: string, b: string) {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previousDiagonal = distances[0];
+    distances[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const previous = distances[j];
+      distances[j] = Math.min(
+        distances[j] + 1,
+        distances[j - 1] + 1,
+        previousDiagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previousDiagonal = previous;
+    }
+  }
+
+  return distances[b.length];
+}
+
+export async function getAccountNotFoundMessage(accountName: string) {
+  const { accounts } = await listAccounts();
+  const names = accounts.map((account) => account.name);
+
+  const maxDistance = Math.max(2, Math.floor(accountName.length / 3));
+  const suggestions = names
+    .map((name) => ({
+      name,
+      distance: getEditDistance(accountName.toLowerCase(), name.toLowerCase()),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ name }) => name);
+
+  const lines = [`Account "${accountName}" not found.`];
+  if (suggestions.length > 0) {
+    lines.push(`Did you mean: ${suggestions.join(", ")}?`);
+  } else if (names.length > 0) {
+    lines.push(`Available accounts: ${names.join(", ")}.`);
+  }
+  lines.push("Use the create-account or import-account tool to add it.");
+
+  return lines.join(" ");
+}
+
+export async function resolveAccount(
+  accountName: string,
+  createIfMissing: boolean = false
+): Promise<Keypair> {
+  validateAccountName(accountName);
+  const keysFolder = path.resolve(rootDir, ".keys");
+  const accountFilePath = path.join(keysFolder, `${accountName}.json`);
+
+  if (fs.existsSync(accountFilePath)) {
+    return readKeypairFile(accountFilePath);
+  }
+
+  if (createIfMissing) {
+    console.error(`Creating new account: ${accountName}`);
+    return getOrCreateKeypair(keysFolder, accountName);
+  }
+
+  throw new PumpfunError(
+    "ACCOUNT_NOT_FOUND",
+    await getAccountNotFoundMessage(accountName),
+    { accountName }
+  );
+}
+
+export async function resolveAddress(nameOrAddress: string) {
+  if (isValidAccountName(nameOrAddress)) {
+    const keysFolder = path.resolve(rootDir, ".keys");
+    const accountFilePath = path.join(keysFolder, `${nameOrAddress}.json`);
+
+    if (fs.existsSync(accountFilePath)) {
+      return {
+        accountName: nameOrAddress as string | undefined,
+        publicKey: readPublicKeyFromFile(accountFilePath),
+      };
     }
+  }
 
-    return { success: false, error: errorMessage, accounts: [] };
+  try {
+    return { accountName: undefined, publicKey: new PublicKey(nameOrAddress) };
+  } catch (error) {
+    throw new PumpfunError(
+      "INVALID_ADDRESS",
+      `"${nameOrAddress}" is neither a managed account nor a valid base58 address. ${await getAccountNotFoundMessage(
+        nameOrAddress
+      )}`,
+      { address: nameOrAddress }
+    );
   }
 }
 
@@ -118,6 +191,28 @@ export function formatListAccountsResult(
   return `${result.message}\n\n${accountsText}`;
 }
 
+export const listAccountsOutputSchema = {
+  message: z.string(),
+  accounts: z.array(
+    z.object({
+      name: z.string(),
+      publicKey: z.string(),
+    })
+  ),
+};
+
+export function toListAccountsStructuredContent(
+  result: Extract<
+    ReturnType<typeof listAccounts> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    message: result.message,
+    accounts: result.accounts,
+  };
+}
+
 async function main() {
   try {
     const result = await listAccounts();
@@ -144,5 +239,8 @@ if (isMainModule) {
 
 export default {
   listAccounts,
+  resolveAccount,
+  resolveAddress,
   formatListAccountsResult,
+  toListAccountsStructuredContent,
 };
@@ -0,0 +1,499 @@
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { rootDir } from "./utils.js";
+import {
+  decryptKeypair,
+  isEncryptedKeyFile,
+  readKeypairFile,
+  readPublicKeyFromFile,
+  writeKeypairFile,
+} from "./keystore.js";
+import { PumpfunError, errorResult } from "./errors.js";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function ensureKeysFolder() {
+  const keysFolder = path.resolve(rootDir, ".keys");
+  if (!fs.existsSync(keysFolder)) {
+    fs.mkdirSync(keysFolder, { recursive: true });
+  }
+  return keysFolder;
+}
+
+export function isValidAccountName(name: string) {
+  return ACCOUNT_NAME_PATTERN.test(name) && !name.startsWith("mint-");
+}
+
+/**
+ * Rejects names that could escape the keys folder or that are reserved for
+ * mint keys. Every name joined into a key file path goes through here.
+ */
+export function validateAccountName(name: string) {
+  if (!ACCOUNT_NAME_PATTERN.test(name)) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Invalid account name "${name}". Use only letters, numbers, dashes and underscores.`
+    );
+  }
+
+  if (name.startsWith("mint-")) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Invalid account name "${name}". Names starting with "mint-" are reserved for token mint keys.`
+    );
+  }
+}
+
+function getAccountPath(keysFolder: string, name: string) {
+  validateAccountName(name);
+  return path.join(keysFolder, `${name}.json`);
+}
+
+function findAccountByPublicKey(keysFolder: string, publicKey: string) {
+  return fs
+    .readdirSync(keysFolder)
+    .filter((file) => !file.startsWith("mint-") && file.endsWith(".json"))
+    .find((file) => {
+      try {
+        return (
+          readPublicKeyFromFile(path.join(keysFolder, file)).toString() ===
+          publicKey
+        );
+      } catch (error) {
+        return false;
+      }
+    })
+    ?.replace(".json", "");
+}
+
+/**
+ * Parses a 64 byte secret key from base58 or a JSON byte array. A 32 byte seed
+ * is only accepted as a JSON byte array, because 32 bytes of base58 is what a
+ * public key looks like, and treating one as a seed would import an unrelated
+ * wallet.
+ */
+function parseSecretKey(secretKey: string): Keypair {
+  const trimmed = secretKey.trim();
+
+  if (trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    if (
+      !Array.isArray(parsed) ||
+      !parsed.every((byte) => Number.isInteger(byte) && byte >= 0 && byte < 256)
+    ) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "Secret key JSON must be an array of bytes"
+      );
+    }
+
+    const bytes = new Uint8Array(parsed);
+    if (bytes.length === 64) {
+      return Keypair.fromSecretKey(bytes);
+    }
+    if (bytes.length === 32) {
+      return Keypair.fromSeed(bytes);
+    }
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Secret key JSON must be 64 bytes (or a 32 byte seed), got ${bytes.length} bytes`
+    );
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(trimmed);
+  } catch (error) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      "Secret key is neither a JSON byte array nor base58"
+    );
+  }
+
+  if (bytes.length === 32) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      "This base58 value is 32 bytes, the length of a public key or address, not a secret key. Paste the full 64 byte secret key, or pass a 32 byte seed as a JSON byte array."
+    );
+  }
+  if (bytes.length !== 64) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Base58 secret key must be 64 bytes, got ${bytes.length} bytes`
+    );
+  }
+
+  return Keypair.fromSecretKey(bytes);
+}
+
+function storeNewAccount(keysFolder: string, name: string, keypair: Keypair) {
+  const accountPath = getAccountPath(keysFolder, name);
+  if (fs.existsSync(accountPath)) {
+    throw new PumpfunError("INVALID_INPUT", `Account ${name} already exists`);
+  }
+
+  const existingName = findAccountByPublicKey(
+    keysFolder,
+    keypair.publicKey.toString()
+  );
+  if (existingName) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Key ${keypair.publicKey.toString()} is already stored as account ${existingName}`
+    );
+  }
+
+  writeKeypairFile(accountPath, keypair);
+}
+
+export async function createAccount(name: string) {
+  try {
+    const keysFolder = ensureKeysFolder();
+    const keypair = Keypair.generate();
+
+    storeNewAccount(keysFolder, name, keypair);
+
+    return {
+      success: true as const,
+      accountName: name,
+      publicKey: keypair.publicKey.toString(),
+    };
+  } catch (error: any) {
+    console.error("Error creating account:", error);
+    return errorResult(error);
+  }
+}
+
+export async function importAccount(
+  name: string,
+  source: { secretKey?: string; filePath?: string }
+) {
+  try {
+    const keysFolder = ensureKeysFolder();
+
+    if (!!source.secretKey === !!source.filePath) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "Provide exactly one of secretKey or filePath"
+      );
+    }
+
+    const secretKey = source.filePath
+      ? fs.readFileSync(path.resolve(source.filePath), "utf-8")
+      : source.secretKey!;
+    const keypair = parseSecretKey(secretKey);
+
+    storeNewAccount(keysFolder, name, keypair);
+
+    return {
+      success: true as const,
+      accountName: name,
+      publicKey: keypair.publicKey.toString(),
+    };
+  } catch (error: any) {
+    console.error("Error importing account:", error);
+    return errorResult(error);
+  }
+}
+
+export async function exportAccount(
+  name: string,
+  includeSecret: boolean = false,
+  passphrase?: string
+) {
+  try {
+    const keysFolder = ensureKeysFolder();
+    const accountPath = getAccountPath(keysFolder, name);
+
+    if (!fs.existsSync(accountPath)) {
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        `Account file not found for ${name}`,
+        { accountName: name }
+      );
+    }
+
+    const publicKey = readPublicKeyFromFile(accountPath).toString();
+
+    if (!includeSecret) {
+      return {
+        success: true as const,
+        accountName: name,
+        publicKey,
+        secretKey: undefined,
+      };
+    }
+
+    const keyFileData = JSON.parse(fs.readFileSync(accountPath, "utf-8"));
+    let keypair: Keypair;
+    if (isEncryptedKeyFile(keyFileData)) {
+      if (!passphrase) {
+        throw new PumpfunError(
+          "INVALID_INPUT",
+          "Exporting the secret key requires the keystore passphrase"
+        );
+      }
+      keypair = decryptKeypair(keyFileData, passphrase);
+    } else {
+      keypair = readKeypairFile(accountPath);
+    }
+
+    return {
+      success: true as const,
+      accountName: name,
+      publicKey,
+      secretKey: bs58.encode(keypair.secretKey),
+    };
+  } catch (error: any) {
+    console.error("Error exporting account:", error?.message);
+    return errorResult(error);
+  }
+}
+
+export async function renameAccount(name: string, newName: string) {
+  try {
+    const keysFolder = ensureKeysFolder();
+    const accountPath = getAccountPath(keysFolder, name);
+    const newAccountPath = getAccountPath(keysFolder, newName);
+
+    if (!fs.existsSync(accountPath)) {
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        `Account file not found for ${name}`,
+        { accountName: name }
+      );
+    }
+
+    if (fs.existsSync(newAccountPath)) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `Account ${newName} already exists`
+      );
+    }
+
+    const publicKey = readPublicKeyFromFile(accountPath).toString();
+    fs.renameSync(accountPath, newAccountPath);
+
+    return {
+      success: true as const,
+      accountName: newName,
+      previousName: name,
+      publicKey,
+    };
+  } catch (error: any) {
+    console.error("Error renaming account:", error);
+    return errorResult(error);
+  }
+}
+
+export async function archiveAccount(name: string) {
+  try {
+    const keysFolder = ensureKeysFolder();
+    const accountPath = getAccountPath(keysFolder, name);
+
+    if (!fs.existsSync(accountPath)) {
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        `Account file not found for ${name}`,
+        { accountName: name }
+      );
+    }
+
+    const archiveFolder = path.join(keysFolder, "archive");
+    if (!fs.existsSync(archiveFolder)) {
+      fs.mkdirSync(archiveFolder, { recursive: true });
+    }
+
+    let archivePath = getAccountPath(archiveFolder, name);
+    if (fs.existsSync(archivePath)) {
+      archivePath = getAccountPath(archiveFolder, `${name}-${Date.now()}`);
+    }
+
+    const publicKey = readPublicKeyFromFile(accountPath).toString();
+    fs.renameSync(accountPath, archivePath);
+
+    return {
+      success: true as const,
+      accountName: name,
+      publicKey,
+      archivePath,
+    };
+  } catch (error: any) {
+    console.error("Error archiving account:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatCreateAccountResult(
+  result: ReturnType<typeof createAccount> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error creating account: ${result.error}`;
+  }
+
+  return [
+    `Created account ${result.accountName}`,
+    `Public Key: ${result.publicKey}`,
+    `Send SOL to this address to fund the account.`,
+  ].join("\n");
+}
+
+export function formatImportAccountResult(
+  result: ReturnType<typeof importAccount> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error importing account: ${result.error}`;
+  }
+
+  return [
+    `Imported account ${result.accountName}`,
+    `Public Key: ${result.publicKey}`,
+  ].join("\n");
+}
+
+export function formatExportAccountResult(
+  result: ReturnType<typeof exportAccount> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error exporting account: ${result.error}`;
+  }
+
+  const lines = [
+    `Account: ${result.accountName}`,
+    `Public Key: ${result.publicKey}`,
+  ];
+
+  if (result.secretKey) {
+    lines.push(`Secret Key (base58): ${result.secretKey}`);
+    lines.push(`Anyone with this secret key can spend from this account.`);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatRenameAccountResult(
+  result: ReturnType<typeof renameAccount> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error renaming account: ${result.error}`;
+  }
+
+  return [
+    `Renamed account ${result.previousName} to ${result.accountName}`,
+    `Public Key: ${result.publicKey}`,
+  ].join("\n");
+}
+
+export function formatArchiveAccountResult(
+  result: ReturnType<typeof archiveAccount> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error archiving account: ${result.error}`;
+  }
+
+  return [
+    `Archived account ${result.accountName}`,
+    `Public Key: ${result.publicKey}`,
+    `Key File: ${result.archivePath}`,
+  ].join("\n");
+}
+
+export const accountOutputSchema = {
+  accountName: z.string(),
+  publicKey: z.string(),
+};
+
+export const exportAccountOutputSchema = {
+  ...accountOutputSchema,
+  secretKey: z.string().optional(),
+};
+
+export const renameAccountOutputSchema = {
+  ...accountOutputSchema,
+  previousName: z.string(),
+};
+
+export const archiveAccountOutputSchema = {
+  ...accountOutputSchema,
+  archivePath: z.string(),
+};
+
+export function toAccountStructuredContent<T extends { success: true }>(
+  result: T
+) {
+  const { success, ...structuredContent } = result;
+  return structuredContent;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  let formattedResult: string;
+  switch (command) {
+    case "create":
+      formattedResult = formatCreateAccountResult(
+        await createAccount(args[0] || "default")
+      );
+      break;
+    case "import":
+      formattedResult = formatImportAccountResult(
+        await importAccount(
+          args[0],
+          fs.existsSync(args[1] || "")
+            ? { filePath: args[1] }
+            : { secretKey: args[1] }
+        )
+      );
+      break;
+    case "export":
+      formattedResult = formatExportAccountResult(
+        await exportAccount(
+          args[0] || "default",
+          args[1] === "--secret",
+          process.env.KEYSTORE_PASSPHRASE
+        )
+      );
+      break;
+    case "rename":
+      formattedResult = formatRenameAccountResult(
+        await renameAccount(args[0], args[1])
+      );
+      break;
+    case "archive":
+      formattedResult = formatArchiveAccountResult(
+        await archiveAccount(args[0])
+      );
+      break;
+    default:
+      console.error("Usage:");
+      console.error("  node manage-accounts.js create <name>");
+      console.error(
+        "  node manage-accounts.js import <name> <base58_key|json_byte_array|key_file>"
+      );
+      console.error("  node manage-accounts.js export <name> [--secret]");
+      console.error("  node manage-accounts.js rename <name> <new_name>");
+      console.error("  node manage-accounts.js archive <name>");
+      process.exit(1);
+  }
+
+  console.log(formattedResult);
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  createAccount,
+  importAccount,
+  exportAccount,
+  renameAccount,
+  archiveAccount,
+};
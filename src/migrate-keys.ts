@@ -0,0 +1,117 @@
+import { Keypair } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { rootDir } from "./utils.js";
+import {
+  decryptKeypair,
+  getKeystorePassphrase,
+  isEncryptedKeyFile,
+  writeKeypairFile,
+} from "./keystore.js";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+export function migrateKeys(
+  keysFolder: string = path.resolve(rootDir, ".keys")
+) {
+  const migrated: string[] = [];
+  const skipped: string[] = [];
+  const failed: { file: string; error: string }[] = [];
+
+  if (!fs.existsSync(keysFolder)) {
+    return { keysFolder, migrated, skipped, failed };
+  }
+
+  const files = fs
+    .readdirSync(keysFolder)
+    .filter((file) => file.endsWith(".json"));
+
+  const existingEncryptedFile = files
+    .map((file) =>
+      JSON.parse(fs.readFileSync(path.join(keysFolder, file), "utf-8"))
+    )
+    .find(isEncryptedKeyFile);
+
+  if (existingEncryptedFile) {
+    decryptKeypair(existingEncryptedFile, getKeystorePassphrase());
+  }
+
+  for (const file of files) {
+    const filePath = path.join(keysFolder, file);
+
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+      if (isEncryptedKeyFile(data)) {
+        skipped.push(file);
+        continue;
+      }
+
+      if (!Array.isArray(data)) {
+        throw new Error("Unrecognized key file format");
+      }
+
+      const keypair = Keypair.fromSecretKey(new Uint8Array(data));
+      writeKeypairFile(filePath, keypair);
+      migrated.push(file);
+    } catch (error: any) {
+      console.error(`Error migrating key file ${file}:`, error);
+      failed.push({ file, error: error?.message || "Unknown error" });
+    }
+  }
+
+  return { keysFolder, migrated, skipped, failed };
+}
+
+export function formatMigrateKeysResult(
+  result: ReturnType<typeof migrateKeys>
+) {
+  const lines = [
+    `Keys folder: ${result.keysFolder}`,
+    `Encrypted: ${result.migrated.length}`,
+    ...result.migrated.map((file) => `  ${file}`),
+    `Already encrypted: ${result.skipped.length}`,
+  ];
+
+  if (result.failed.length > 0) {
+    lines.push(`Failed: ${result.failed.length}`);
+    lines.push(
+      ...result.failed.map(({ file, error }) => `  ${file}: ${error}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+async function main() {
+  if (!process.env.KEYSTORE_PASSPHRASE) {
+    console.error(
+      "Set KEYSTORE_PASSPHRASE to the passphrase that should protect your keys"
+    );
+    console.error("Usage: KEYSTORE_PASSPHRASE=... node migrate-keys.js");
+    process.exit(1);
+  }
+
+  try {
+    const result = migrateKeys();
+    console.log(formatMigrateKeysResult(result));
+
+    if (result.failed.length > 0) {
+      process.exit(1);
+    }
+  } catch (error: any) {
+    console.error("Error migrating keys:", error?.message || error);
+    process.exit(1);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  migrateKeys,
+  formatMigrateKeysResult,
+};
@@ -0,0 +1,154 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { PriorityFee } from "pumpdotfun-sdk";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+export const PUMPFUN_PROGRAM_ID = new PublicKey(
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
+);
+
+const DEFAULT_UNIT_LIMIT = 250000;
+const DEFAULT_UNIT_PRICE = 250000;
+const DEFAULT_MAX_UNIT_PRICE = 2000000;
+const AUTO_FEE_PERCENTILE = 75;
+
+export type PriorityFeeOptions = {
+  unitLimit?: number;
+  unitPrice?: number | "auto";
+  maxUnitPrice?: number;
+};
+
+export type ResolvedPriorityFees = PriorityFee & {
+  mode: "fixed" | "auto";
+};
+
+export const priorityFeeInputSchema = z
+  .object({
+    unitLimit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Compute unit limit for the transaction"),
+    unitPrice: z
+      .union([z.number().int().nonnegative(), z.literal("auto")])
+      .optional()
+      .describe(
+        'Compute unit price in micro-lamports, or "auto" to derive it from recent prioritization fees'
+      ),
+    maxUnitPrice: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe("Upper bound in micro-lamports for the auto unit price"),
+  })
+  .optional()
+  .describe(
+    "Priority fee settings. Defaults come from PRIORITY_FEE_UNIT_LIMIT, PRIORITY_FEE_UNIT_PRICE and PRIORITY_FEE_MAX_UNIT_PRICE"
+  );
+
+export const priorityFeeOutputSchema = z.object({
+  unitLimit: z.number(),
+  unitPrice: z.number().describe("Micro-lamports per compute unit"),
+  mode: z.enum(["fixed", "auto"]),
+});
+
+function readIntegerEnv(name: string) {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function getConfiguredPriorityFees(): Required<PriorityFeeOptions> {
+  return {
+    unitLimit: readIntegerEnv("PRIORITY_FEE_UNIT_LIMIT") ?? DEFAULT_UNIT_LIMIT,
+    unitPrice:
+      process.env.PRIORITY_FEE_UNIT_PRICE === "auto"
+        ? "auto"
+        : readIntegerEnv("PRIORITY_FEE_UNIT_PRICE") ?? DEFAULT_UNIT_PRICE,
+    maxUnitPrice:
+      readIntegerEnv("PRIORITY_FEE_MAX_UNIT_PRICE") ?? DEFAULT_MAX_UNIT_PRICE,
+  };
+}
+
+/**
+ * Estimates a compute unit price from the fees recently paid by transactions
+ * that write to the given accounts, taking the 75th percentile over the
+ * returned slots.
+ */
+export async function estimateUnitPrice(
+  connection: Connection,
+  accounts: PublicKey[]
+) {
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: accounts,
+  });
+
+  const fees = recentFees
+    .map((fee) => fee.prioritizationFee)
+    .sort((a, b) => a - b);
+
+  if (fees.length === 0) {
+    return 0;
+  }
+
+  const index = Math.min(
+    fees.length - 1,
+    Math.floor((fees.length * AUTO_FEE_PERCENTILE) / 100)
+  );
+  return fees[index];
+}
+
+/**
+ * Merges per-call options over the configured defaults. In auto mode the price
+ * is estimated from recent fees on the pump.fun program and the given accounts,
+ * then capped at maxUnitPrice.
+ */
+export async function resolvePriorityFees(
+  connection: Connection,
+  options: PriorityFeeOptions = {},
+  accounts: PublicKey[] = []
+): Promise<ResolvedPriorityFees> {
+  const configured = getConfiguredPriorityFees();
+  const unitLimit = options.unitLimit ?? configured.unitLimit;
+  const unitPrice = options.unitPrice ?? configured.unitPrice;
+  const maxUnitPrice = options.maxUnitPrice ?? configured.maxUnitPrice;
+
+  if (unitPrice !== "auto") {
+    return { unitLimit, unitPrice, mode: "fixed" };
+  }
+
+  const estimate = await estimateUnitPrice(connection, [
+    PUMPFUN_PROGRAM_ID,
+    ...accounts,
+  ]);
+
+  return {
+    unitLimit,
+    unitPrice: Math.min(estimate, maxUnitPrice),
+    mode: "auto",
+  };
+}
+
+export function formatPriorityFees(priorityFees: ResolvedPriorityFees) {
+  return `${priorityFees.unitPrice} micro-lamports per CU, limit ${priorityFees.unitLimit} CU (${priorityFees.mode})`;
+}
+
+export default {
+  getConfiguredPriorityFees,
+  estimateUnitPrice,
+  resolvePriorityFees,
+  formatPriorityFees,
+};
@@ -0,0 +1,172 @@
+import {
+  SystemProgram,
+  TransactionError,
+  VersionedMessage,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { createRequire } from "module";
+import { PUMPFUN_PROGRAM_ID } from "./priority-fees.js";
+
+const require = createRequire(import.meta.url);
+const pumpFunIdl = require("pumpdotfun-sdk/dist/cjs/IDL/pump-fun.json");
+
+type ErrorDefinition = {
+  name: string;
+  msg: string;
+};
+
+const PUMPFUN_ERRORS = new Map<number, ErrorDefinition>(
+  (pumpFunIdl.errors || []).map((error: ErrorDefinition & { code: number }) => [
+    error.code,
+    { name: error.name, msg: error.msg },
+  ])
+);
+
+// Anchor framework errors the pump.fun program can return for bad accounts
+const ANCHOR_ERRORS: Record<number, ErrorDefinition> = {
+  2000: {
+    name: "ConstraintMut",
+    msg: "A mut constraint was violated.",
+  },
+  2003: {
+    name: "ConstraintRaw",
+    msg: "A raw constraint was violated.",
+  },
+  2006: {
+    name: "ConstraintSeeds",
+    msg: "A seeds constraint was violated.",
+  },
+  3001: {
+    name: "AccountDiscriminatorNotFound",
+    msg: "No discriminator was found on the account.",
+  },
+  3007: {
+    name: "AccountOwnedByWrongProgram",
+    msg: "The given account is owned by a different program than expected.",
+  },
+  3012: {
+    name: "AccountNotInitialized",
+    msg: "The program expected this account to be already initialized.",
+  },
+};
+
+const SYSTEM_ERRORS: Record<number, ErrorDefinition> = {
+  0: {
+    name: "AccountAlreadyInUse",
+    msg: "An account with the same address already exists.",
+  },
+  1: {
+    name: "ResultWithNegativeLamports",
+    msg: "Account does not have enough SOL to perform the operation.",
+  },
+};
+
+const TOKEN_ERRORS: Record<number, ErrorDefinition> = {
+  1: {
+    name: "InsufficientFunds",
+    msg: "Insufficient token balance.",
+  },
+  3: {
+    name: "MintMismatch",
+    msg: "Account not associated with this mint.",
+  },
+};
+
+const TRANSACTION_ERRORS: Record<string, string> = {
+  AccountNotFound:
+    "The fee payer account was not found. It needs SOL before it can send transactions.",
+  InsufficientFundsForFee:
+    "The fee payer does not have enough SOL to pay the transaction fee.",
+  InsufficientFundsForRent:
+    "An account would be left below the rent-exempt minimum.",
+  BlockhashNotFound: "The blockhash expired or was not found.",
+  AlreadyProcessed: "This transaction has already been processed.",
+};
+
+export type DecodedProgramError = {
+  message: string;
+  name?: string;
+  code?: number;
+  programId?: string;
+  instructionIndex?: number;
+};
+
+/**
+ * Turns a raw transaction error into a readable one. Custom errors from the
+ * pump.fun program are looked up in its IDL; the message is used to find which
+ * program raised an instruction error.
+ */
+export function decodeTransactionError(
+  error: TransactionError,
+  message?: VersionedMessage
+): DecodedProgramError {
+  if (typeof error === "string") {
+    return { name: error, message: TRANSACTION_ERRORS[error] || error };
+  }
+
+  const instructionError = (error as any)?.InstructionError;
+  if (!Array.isArray(instructionError)) {
+    const name = Object.keys(error as object)[0];
+    return {
+      name,
+      message: TRANSACTION_ERRORS[name] || JSON.stringify(error),
+    };
+  }
+
+  const [instructionIndex, detail] = instructionError;
+  const instruction = message?.compiledInstructions[instructionIndex];
+  const programId =
+    instruction !== undefined
+      ? message!.staticAccountKeys[instruction.programIdIndex]
+      : undefined;
+
+  if (detail && typeof detail === "object" && "Custom" in detail) {
+    const code = detail.Custom as number;
+
+    let definition: ErrorDefinition | undefined;
+    if (!programId || programId.equals(PUMPFUN_PROGRAM_ID)) {
+      definition = PUMPFUN_ERRORS.get(code) || ANCHOR_ERRORS[code];
+    } else if (programId.equals(SystemProgram.programId)) {
+      definition = SYSTEM_ERRORS[code];
+    } else if (programId.equals(TOKEN_PROGRAM_ID)) {
+      definition = TOKEN_ERRORS[code];
+    }
+
+    return {
+      name: definition?.name,
+      code,
+      programId: programId?.toString(),
+      instructionIndex,
+      message: definition
+        ? definition.msg
+        : `Custom program error ${code}${
+            programId ? ` from ${programId.toString()}` : ""
+          }`,
+    };
+  }
+
+  const name = typeof detail === "string" ? detail : Object.keys(detail)[0];
+  return {
+    name,
+    programId: programId?.toString(),
+    instructionIndex,
+    message: typeof detail === "string" ? detail : JSON.stringify(detail),
+  };
+}
+
+export function formatProgramError(error: DecodedProgramError) {
+  const location =
+    error.instructionIndex !== undefined
+      ? `Instruction ${error.instructionIndex} failed: `
+      : "";
+  const label =
+    error.name && error.name !== error.message
+      ? `${error.name}${error.code !== undefined ? ` (${error.code})` : ""}: `
+      : "";
+  return `${location}${label}${error.message}`;
+}
+
+export default {
+  decodeTransactionError,
+  formatProgramError,
+};
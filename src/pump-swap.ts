@@ -0,0 +1,323 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { AccountLayout } from "@solana/spl-token";
+import BN from "bn.js";
+import {
+  OnlinePumpAmmSdk,
+  PUMP_AMM_SDK,
+  SwapSolanaState,
+  buyQuoteInput,
+  canonicalPumpPoolPda,
+  sellBaseInput,
+} from "@pump-fun/pump-swap-sdk";
+import { BondingCurveAccount, PumpFunSDK } from "pumpdotfun-sdk";
+import { z } from "zod";
+import {
+  getPriceFromReserves,
+  getPriceImpactPercent,
+  lamportsToSol,
+  tokenUnitsToAmount,
+} from "./bonding-curve.js";
+import { PumpfunError } from "./errors.js";
+
+const BASIS_POINTS = 10000n;
+
+/**
+ * Where a mint trades: on its pump.fun bonding curve until the curve
+ * completes, then in the PumpSwap AMM pool the token migrated to.
+ */
+export type TradingVenue = "bonding-curve" | "pumpswap";
+
+export type ResolvedVenue =
+  | {
+      venue: "bonding-curve";
+      address: PublicKey;
+      bondingCurve: BondingCurveAccount;
+    }
+  | {
+      venue: "pumpswap";
+      address: PublicKey;
+      bondingCurve: BondingCurveAccount | null;
+    };
+
+export const venueOutputSchema = z
+  .enum(["bonding-curve", "pumpswap"])
+  .describe("Where the token trades: its bonding curve or its PumpSwap pool");
+
+export function formatVenue(venue: TradingVenue) {
+  return venue === "pumpswap" ? "PumpSwap AMM" : "pump.fun bonding curve";
+}
+
+export function getPoolPDA(mint: PublicKey) {
+  return canonicalPumpPoolPda(mint);
+}
+
+/**
+ * Finds the venue a mint trades on. A complete curve whose pool does not
+ * exist yet has not finished migrating and cannot be traded anywhere.
+ */
+export async function resolveTradingVenue(
+  sdk: PumpFunSDK,
+  connection: Connection,
+  mint: PublicKey
+): Promise<ResolvedVenue> {
+  const bondingCurve = await sdk.getBondingCurveAccount(mint);
+  if (bondingCurve && !bondingCurve.complete) {
+    return {
+      venue: "bonding-curve",
+      address: sdk.getBondingCurvePDA(mint),
+      bondingCurve,
+    };
+  }
+
+  const poolKey = getPoolPDA(mint);
+  const poolAccount = await connection.getAccountInfo(poolKey);
+  if (poolAccount) {
+    return { venue: "pumpswap", address: poolKey, bondingCurve };
+  }
+
+  if (bondingCurve) {
+    throw new PumpfunError(
+      "CURVE_COMPLETE",
+      `Bonding curve for ${mint.toString()} is complete, but its PumpSwap pool was not found. The token may still be migrating.`,
+      { tokenAddress: mint.toString(), pool: poolKey.toString() }
+    );
+  }
+  throw new PumpfunError(
+    "ACCOUNT_NOT_FOUND",
+    `No bonding curve or PumpSwap pool found for token ${mint.toString()}`,
+    { tokenAddress: mint.toString() }
+  );
+}
+
+/**
+ * Loads the pool, its reserves and the fee configuration. Quotes do not need
+ * a user, so they use the default key.
+ */
+export async function fetchPoolState(
+  connection: Connection,
+  poolKey: PublicKey,
+  user: PublicKey = PublicKey.default
+) {
+  return new OnlinePumpAmmSdk(connection).swapSolanaState(poolKey, user);
+}
+
+function toBigInt(value: BN) {
+  return BigInt(value.toString());
+}
+
+// The AMM SDK takes slippage in percent
+function toSlippagePercent(slippageBasisPoints: bigint | number) {
+  return Number(slippageBasisPoints) / 100;
+}
+
+function getPoolQuoteParams(state: SwapSolanaState) {
+  const { pool } = state;
+
+  return {
+    baseReserve: state.poolBaseAmount,
+    quoteReserve: state.poolQuoteAmount,
+    virtualQuoteReserves: pool.virtualQuoteReserves,
+    globalConfig: state.globalConfig,
+    baseMintAccount: state.baseMintAccount,
+    baseMint: state.baseMint,
+    coinCreator: pool.coinCreator,
+    creator: pool.creator,
+    feeConfig: state.feeConfig,
+    quoteMint: pool.quoteMint,
+    isMayhemMode: pool.isMayhemMode,
+    creatorFeeBps: pool.creatorFeeBps,
+  };
+}
+
+function getPoolReserves(state: SwapSolanaState) {
+  return {
+    solReserves:
+      toBigInt(state.poolQuoteAmount) +
+      toBigInt(state.pool.virtualQuoteReserves),
+    tokenReserves: toBigInt(state.poolBaseAmount),
+  };
+}
+
+export function getPoolSpotPrice(state: SwapSolanaState) {
+  const { solReserves, tokenReserves } = getPoolReserves(state);
+  return getPriceFromReserves(solReserves, tokenReserves);
+}
+
+/**
+ * Prices a buy of solAmount lamports in the same shape as calculateBuyQuote.
+ * The pool takes its fees out of the SOL sent in rather than on top of it,
+ * and the buy receives exactly tokensOut, paying at most maxSolCost.
+ */
+export function calculatePoolBuyQuote(
+  state: SwapSolanaState,
+  solAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  const { base, internalQuoteWithoutFees, maxQuote } = buyQuoteInput({
+    quote: new BN(solAmount.toString()),
+    slippage: toSlippagePercent(slippageBasisPoints),
+    ...getPoolQuoteParams(state),
+  });
+  const tokensOut = toBigInt(base);
+  const solIntoPool = toBigInt(internalQuoteWithoutFees);
+  const protocolFee = solAmount - solIntoPool;
+
+  const { solReserves, tokenReserves } = getPoolReserves(state);
+  const spotPrice = getPriceFromReserves(solReserves, tokenReserves);
+  const effectivePrice =
+    tokensOut > 0n
+      ? lamportsToSol(solIntoPool) / tokenUnitsToAmount(tokensOut)
+      : 0;
+
+  return {
+    tokensOut,
+    minTokensOut: tokensOut,
+    maxSolCost: toBigInt(maxQuote),
+    protocolFee,
+    feeBasisPoints:
+      solAmount > 0n ? Number((protocolFee * BASIS_POINTS) / solAmount) : 0,
+    spotPrice,
+    effectivePrice,
+    priceImpactPercent: getPriceImpactPercent(effectivePrice, spotPrice),
+    priceAfter: getPriceFromReserves(
+      solReserves + solIntoPool,
+      tokenReserves - tokensOut
+    ),
+  };
+}
+
+/**
+ * Prices a sell of tokenAmount base units in the same shape as
+ * calculateSellQuote.
+ */
+export function calculatePoolSellQuote(
+  state: SwapSolanaState,
+  tokenAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  const { uiQuote, minQuote, internalQuoteAmountOut } = sellBaseInput({
+    base: new BN(tokenAmount.toString()),
+    slippage: toSlippagePercent(slippageBasisPoints),
+    ...getPoolQuoteParams(state),
+  });
+  const grossSolOut = toBigInt(internalQuoteAmountOut);
+  const solOut = toBigInt(uiQuote);
+  const protocolFee = grossSolOut - solOut;
+
+  const { solReserves, tokenReserves } = getPoolReserves(state);
+  const spotPrice = getPriceFromReserves(solReserves, tokenReserves);
+  const effectivePrice =
+    tokenAmount > 0n
+      ? lamportsToSol(grossSolOut) / tokenUnitsToAmount(tokenAmount)
+      : 0;
+
+  return {
+    grossSolOut,
+    solOut,
+    minSolOut: toBigInt(minQuote),
+    protocolFee,
+    feeBasisPoints:
+      grossSolOut > 0n ? Number((protocolFee * BASIS_POINTS) / grossSolOut) : 0,
+    spotPrice,
+    effectivePrice,
+    priceImpactPercent: getPriceImpactPercent(effectivePrice, spotPrice),
+    priceAfter: getPriceFromReserves(
+      solReserves - grossSolOut,
+      tokenReserves + tokenAmount
+    ),
+  };
+}
+
+/**
+ * Builds a buy of solAmount lamports from the pool, including wrapping SOL
+ * and creating the token account when the user has none.
+ */
+export async function getPoolBuyTransaction(
+  connection: Connection,
+  poolKey: PublicKey,
+  user: PublicKey,
+  solAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  const state = await fetchPoolState(connection, poolKey, user);
+  const instructions = await PUMP_AMM_SDK.buyQuoteInput(
+    state,
+    new BN(solAmount.toString()),
+    toSlippagePercent(slippageBasisPoints)
+  );
+
+  return new Transaction().add(...instructions);
+}
+
+export async function getPoolSellTransaction(
+  connection: Connection,
+  poolKey: PublicKey,
+  user: PublicKey,
+  tokenAmount: bigint,
+  slippageBasisPoints: bigint
+) {
+  const state = await fetchPoolState(connection, poolKey, user);
+  const instructions = await PUMP_AMM_SDK.sellBaseInput(
+    state,
+    new BN(tokenAmount.toString()),
+    toSlippagePercent(slippageBasisPoints)
+  );
+
+  return new Transaction().add(...instructions);
+}
+
+/**
+ * Reads the spot price of each mint's PumpSwap pool in two batched requests.
+ * Mints without a pool are left out.
+ */
+export async function fetchPoolPrices(connection: Connection, mints: string[]) {
+  const prices = new Map<string, number>();
+  if (mints.length === 0) {
+    return prices;
+  }
+
+  const poolAccounts = await connection.getMultipleAccountsInfo(
+    mints.map((mint) => getPoolPDA(new PublicKey(mint)))
+  );
+  const pools = mints.flatMap((mint, index) => {
+    const accountInfo = poolAccounts[index];
+    return accountInfo
+      ? [{ mint, pool: PUMP_AMM_SDK.decodePool(accountInfo) }]
+      : [];
+  });
+
+  const tokenAccounts = await connection.getMultipleAccountsInfo(
+    pools.flatMap(({ pool }) => [
+      pool.poolBaseTokenAccount,
+      pool.poolQuoteTokenAccount,
+    ])
+  );
+  pools.forEach(({ mint, pool }, index) => {
+    const baseAccount = tokenAccounts[index * 2];
+    const quoteAccount = tokenAccounts[index * 2 + 1];
+    if (!baseAccount || !quoteAccount) {
+      return;
+    }
+
+    prices.set(
+      mint,
+      getPriceFromReserves(
+        AccountLayout.decode(quoteAccount.data).amount +
+          toBigInt(pool.virtualQuoteReserves),
+        AccountLayout.decode(baseAccount.data).amount
+      )
+    );
+  });
+
+  return prices;
+}
+
+export default {
+  resolveTradingVenue,
+  fetchPoolState,
+  calculatePoolBuyQuote,
+  calculatePoolSellQuote,
+  getPoolBuyTransaction,
+  getPoolSellTransaction,
+  fetchPoolPrices,
+};
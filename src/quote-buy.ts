@@ -0,0 +1,246 @@
+import { PublicKey } from "@solana/web3.js";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import {
+  calculateBuyQuote,
+  calculateNetworkFee,
+  lamportsToSol,
+  solToLamports,
+  tokenUnitsToAmount,
+} from "./bonding-curve.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import { rootDir } from "./utils.js";
+import { errorResult } from "./errors.js";
+import {
+  calculatePoolBuyQuote,
+  fetchPoolState,
+  formatVenue,
+  resolveTradingVenue,
+  venueOutputSchema,
+} from "./pump-swap.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+export async function quoteBuy(
+  tokenAddress: string,
+  buyAmount: number,
+  slippageBasisPoints: number = 100,
+  priorityFeeOptions: PriorityFeeOptions = {}
+) {
+  try {
+    const { sdk, connection } = initializeSDK();
+    const mintPublicKey = new PublicKey(tokenAddress);
+
+    const venue = await resolveTradingVenue(sdk, connection, mintPublicKey);
+    const solAmount = solToLamports(buyAmount);
+
+    let quote: ReturnType<typeof calculateBuyQuote>;
+    let protocolFeeBasisPoints: number;
+    if (venue.venue === "pumpswap") {
+      const poolState = await fetchPoolState(connection, venue.address);
+      const poolQuote = calculatePoolBuyQuote(
+        poolState,
+        solAmount,
+        BigInt(slippageBasisPoints)
+      );
+      quote = poolQuote;
+      protocolFeeBasisPoints = poolQuote.feeBasisPoints;
+    } else {
+      const globalAccount = await sdk.getGlobalAccount();
+      quote = calculateBuyQuote(
+        venue.bondingCurve,
+        globalAccount,
+        solAmount,
+        BigInt(slippageBasisPoints)
+      );
+      protocolFeeBasisPoints = Number(globalAccount.feeBasisPoints);
+    }
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      [venue.address]
+    );
+    const { baseFee, priorityFee } = calculateNetworkFee(priorityFees);
+
+    // The pool takes its fees out of the SOL sent in, the curve on top of it
+    const tradeCost =
+      venue.venue === "pumpswap" ? solAmount : solAmount + quote.protocolFee;
+
+    return {
+      success: true as const,
+      tokenAddress,
+      venue: venue.venue,
+      buyAmount,
+      slippageBasisPoints,
+      expectedTokens: tokenUnitsToAmount(quote.tokensOut),
+      minimumTokens: tokenUnitsToAmount(quote.minTokensOut),
+      maxSolCost: lamportsToSol(quote.maxSolCost),
+      spotPrice: quote.spotPrice,
+      effectivePrice: quote.effectivePrice,
+      priceImpactPercent: quote.priceImpactPercent,
+      priceAfter: quote.priceAfter,
+      fees: {
+        protocolFee: lamportsToSol(quote.protocolFee),
+        protocolFeeBasisPoints,
+        baseFee: lamportsToSol(baseFee),
+        priorityFee: lamportsToSol(priorityFee),
+        priorityFees,
+        total: lamportsToSol(quote.protocolFee + baseFee + priorityFee),
+      },
+      totalCost: lamportsToSol(tradeCost + baseFee + priorityFee),
+      pumpfunUrl: `https://pump.fun/${tokenAddress}`,
+    };
+  } catch (error: any) {
+    console.error("Error quoting buy:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatQuoteBuyResult(
+  result: ReturnType<typeof quoteBuy> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error quoting buy: ${result.error}`;
+  }
+
+  return [
+    `Buy quote (dry run, nothing was signed)`,
+    `Token Address: ${result.tokenAddress}`,
+    `Venue: ${formatVenue(result.venue)}`,
+    `Amount In: ${result.buyAmount} SOL`,
+    `Expected Tokens: ${result.expectedTokens}`,
+    `Minimum Tokens (${result.slippageBasisPoints} bps slippage): ${result.minimumTokens}`,
+    `Max SOL Cost: ${result.maxSolCost} SOL`,
+    `Spot Price: ${result.spotPrice} SOL`,
+    `Effective Price: ${result.effectivePrice} SOL`,
+    `Price Impact: ${result.priceImpactPercent.toFixed(4)}%`,
+    `Price After Buy: ${result.priceAfter} SOL`,
+    `Protocol Fee (${result.fees.protocolFeeBasisPoints} bps): ${result.fees.protocolFee} SOL`,
+    `Network Base Fee: ${result.fees.baseFee} SOL`,
+    `Priority Fee: ${result.fees.priorityFee} SOL (${formatPriorityFees(
+      result.fees.priorityFees
+    )})`,
+    `Total Fees: ${result.fees.total} SOL`,
+    `Total Cost: ${result.totalCost} SOL`,
+    `Pump.fun URL: ${result.pumpfunUrl}`,
+  ].join("\n");
+}
+
+export const quoteBuyOutputSchema = {
+  tokenAddress: z.string(),
+  venue: venueOutputSchema,
+  buyAmount: z.string().describe("SOL in"),
+  slippageBasisPoints: z.number(),
+  expectedTokens: z.string(),
+  minimumTokens: z.string(),
+  maxSolCost: z.string(),
+  spotPrice: z.string(),
+  effectivePrice: z.string(),
+  priceImpactPercent: z.number(),
+  priceAfter: z.string(),
+  fees: z.object({
+    protocolFee: z.string(),
+    protocolFeeBasisPoints: z.number(),
+    baseFee: z.string(),
+    priorityFee: z.string(),
+    priorityFees: priorityFeeOutputSchema,
+    total: z.string(),
+  }),
+  totalCost: z.string(),
+  pumpfunUrl: z.string(),
+};
+
+export function toQuoteBuyStructuredContent(
+  result: Extract<
+    ReturnType<typeof quoteBuy> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    venue: result.venue,
+    buyAmount: String(result.buyAmount),
+    slippageBasisPoints: result.slippageBasisPoints,
+    expectedTokens: String(result.expectedTokens),
+    minimumTokens: String(result.minimumTokens),
+    maxSolCost: String(result.maxSolCost),
+    spotPrice: String(result.spotPrice),
+    effectivePrice: String(result.effectivePrice),
+    priceImpactPercent: result.priceImpactPercent,
+    priceAfter: String(result.priceAfter),
+    fees: {
+      protocolFee: String(result.fees.protocolFee),
+      protocolFeeBasisPoints: result.fees.protocolFeeBasisPoints,
+      baseFee: String(result.fees.baseFee),
+      priorityFee: String(result.fees.priorityFee),
+      priorityFees: result.fees.priorityFees,
+      total: String(result.fees.total),
+    },
+    totalCost: String(result.totalCost),
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 2) {
+    console.error(
+      "Usage: node quote-buy.js <token_address> <buy_amount_sol> [slippage_basis_points]"
+    );
+    console.error(
+      "Example: node quote-buy.js G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump 0.1 100"
+    );
+    process.exit(1);
+  }
+
+  const tokenAddress = args[0];
+  const buyAmount = parseFloat(args[1]);
+  const slippageBasisPoints = args[2] ? parseInt(args[2]) : 100;
+
+  if (isNaN(buyAmount) || buyAmount < 0.0001) {
+    console.error(
+      "Buy amount must be a number greater than or equal to 0.0001"
+    );
+    process.exit(1);
+  }
+
+  if (isNaN(slippageBasisPoints) || slippageBasisPoints < 0) {
+    console.error("Slippage basis points must be a non-negative integer");
+    process.exit(1);
+  }
+
+  try {
+    const result = await quoteBuy(tokenAddress, buyAmount, slippageBasisPoints);
+
+    console.log("\nResult:");
+    const formattedResult = formatQuoteBuyResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  quoteBuy,
+  formatQuoteBuyResult,
+  toQuoteBuyStructuredContent,
+};
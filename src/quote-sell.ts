@@ -0,0 +1,275 @@
+import { PublicKey } from "@solana/web3.js";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import {
+  amountToTokenUnits,
+  calculateNetworkFee,
+  calculateSellQuote,
+  lamportsToSol,
+} from "./bonding-curve.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { resolveAddress } from "./list-accounts.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import {
+  calculatePoolSellQuote,
+  fetchPoolState,
+  formatVenue,
+  resolveTradingVenue,
+  venueOutputSchema,
+} from "./pump-swap.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+export async function quoteSell(
+  tokenAddress: string,
+  sellAmount: number | "all" = "all",
+  accountName: string = "default",
+  slippageBasisPoints: number = 100,
+  priorityFeeOptions: PriorityFeeOptions = {}
+) {
+  try {
+    const { sdk, connection } = initializeSDK();
+    const account = await resolveAddress(accountName);
+
+    const mintPublicKey = new PublicKey(tokenAddress);
+
+    const tokenBalance =
+      (await getSPLBalance(connection, mintPublicKey, account.publicKey)) || 0;
+
+    if (tokenBalance === 0) {
+      return errorResult(
+        new PumpfunError(
+          "NO_TOKEN_BALANCE",
+          `No tokens to sell. Account ${account.publicKey.toString()} has 0 tokens of ${tokenAddress}.`,
+          { publicKey: account.publicKey.toString(), tokenAddress }
+        )
+      );
+    }
+
+    const amountToSell =
+      sellAmount === "all" || sellAmount === 0
+        ? tokenBalance
+        : Math.min(sellAmount, tokenBalance);
+
+    const venue = await resolveTradingVenue(sdk, connection, mintPublicKey);
+    const tokenAmount = amountToTokenUnits(amountToSell);
+
+    let quote: ReturnType<typeof calculateSellQuote>;
+    let protocolFeeBasisPoints: number;
+    if (venue.venue === "pumpswap") {
+      const poolState = await fetchPoolState(connection, venue.address);
+      const poolQuote = calculatePoolSellQuote(
+        poolState,
+        tokenAmount,
+        BigInt(slippageBasisPoints)
+      );
+      quote = poolQuote;
+      protocolFeeBasisPoints = poolQuote.feeBasisPoints;
+    } else {
+      const globalAccount = await sdk.getGlobalAccount();
+      quote = calculateSellQuote(
+        venue.bondingCurve,
+        globalAccount,
+        tokenAmount,
+        BigInt(slippageBasisPoints)
+      );
+      protocolFeeBasisPoints = Number(globalAccount.feeBasisPoints);
+    }
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      [venue.address]
+    );
+    const { baseFee, priorityFee } = calculateNetworkFee(priorityFees);
+
+    return {
+      success: true as const,
+      tokenAddress,
+      venue: venue.venue,
+      accountName,
+      publicKey: account.publicKey.toString(),
+      tokenBalance,
+      tokensToSell: amountToSell,
+      slippageBasisPoints,
+      expectedSol: lamportsToSol(quote.solOut),
+      minimumSol: lamportsToSol(quote.minSolOut),
+      spotPrice: quote.spotPrice,
+      effectivePrice: quote.effectivePrice,
+      priceImpactPercent: quote.priceImpactPercent,
+      priceAfter: quote.priceAfter,
+      fees: {
+        protocolFee: lamportsToSol(quote.protocolFee),
+        protocolFeeBasisPoints,
+        baseFee: lamportsToSol(baseFee),
+        priorityFee: lamportsToSol(priorityFee),
+        priorityFees,
+        total: lamportsToSol(quote.protocolFee + baseFee + priorityFee),
+      },
+      netSol: lamportsToSol(quote.solOut - baseFee - priorityFee),
+      pumpfunUrl: `https://pump.fun/${tokenAddress}`,
+    };
+  } catch (error: any) {
+    console.error("Error quoting sell:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatQuoteSellResult(
+  result: ReturnType<typeof quoteSell> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error quoting sell: ${result.error}`;
+  }
+
+  return [
+    `Sell quote (dry run, nothing was signed)`,
+    `Token Address: ${result.tokenAddress}`,
+    `Account: ${result.accountName} (${result.publicKey})`,
+    `Venue: ${formatVenue(result.venue)}`,
+    `Token Balance: ${result.tokenBalance}`,
+    `Tokens To Sell: ${result.tokensToSell}`,
+    `Expected SOL Out: ${result.expectedSol} SOL`,
+    `Minimum SOL Out (${result.slippageBasisPoints} bps slippage): ${result.minimumSol} SOL`,
+    `Spot Price: ${result.spotPrice} SOL`,
+    `Effective Price: ${result.effectivePrice} SOL`,
+    `Price Impact: ${result.priceImpactPercent.toFixed(4)}%`,
+    `Price After Sell: ${result.priceAfter} SOL`,
+    `Protocol Fee (${result.fees.protocolFeeBasisPoints} bps): ${result.fees.protocolFee} SOL`,
+    `Network Base Fee: ${result.fees.baseFee} SOL`,
+    `Priority Fee: ${result.fees.priorityFee} SOL (${formatPriorityFees(
+      result.fees.priorityFees
+    )})`,
+    `Total Fees: ${result.fees.total} SOL`,
+    `Net SOL After Network Fees: ${result.netSol} SOL`,
+    `Pump.fun URL: ${result.pumpfunUrl}`,
+  ].join("\n");
+}
+
+export const quoteSellOutputSchema = {
+  tokenAddress: z.string(),
+  venue: venueOutputSchema,
+  accountName: z.string(),
+  publicKey: z.string(),
+  tokenBalance: z.string(),
+  tokensToSell: z.string(),
+  slippageBasisPoints: z.number(),
+  expectedSol: z.string(),
+  minimumSol: z.string(),
+  spotPrice: z.string(),
+  effectivePrice: z.string(),
+  priceImpactPercent: z.number(),
+  priceAfter: z.string(),
+  fees: z.object({
+    protocolFee: z.string(),
+    protocolFeeBasisPoints: z.number(),
+    baseFee: z.string(),
+    priorityFee: z.string(),
+    priorityFees: priorityFeeOutputSchema,
+    total: z.string(),
+  }),
+  netSol: z.string(),
+  pumpfunUrl: z.string(),
+};
+
+export function toQuoteSellStructuredContent(
+  result: Extract<
+    ReturnType<typeof quoteSell> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    venue: result.venue,
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    tokenBalance: String(result.tokenBalance),
+    tokensToSell: String(result.tokensToSell),
+    slippageBasisPoints: result.slippageBasisPoints,
+    expectedSol: String(result.expectedSol),
+    minimumSol: String(result.minimumSol),
+    spotPrice: String(result.spotPrice),
+    effectivePrice: String(result.effectivePrice),
+    priceImpactPercent: result.priceImpactPercent,
+    priceAfter: String(result.priceAfter),
+    fees: {
+      protocolFee: String(result.fees.protocolFee),
+      protocolFeeBasisPoints: result.fees.protocolFeeBasisPoints,
+      baseFee: String(result.fees.baseFee),
+      priorityFee: String(result.fees.priorityFee),
+      priorityFees: result.fees.priorityFees,
+      total: String(result.fees.total),
+    },
+    netSol: String(result.netSol),
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 1) {
+    console.error(
+      "Usage: node quote-sell.js <token_address> [sell_amount|all] [account_name_or_address] [slippage_basis_points]"
+    );
+    console.error(
+      "Example: node quote-sell.js G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump 1000 default 100"
+    );
+    process.exit(1);
+  }
+
+  const tokenAddress = args[0];
+  const sellAmount =
+    !args[1] || args[1] === "all" ? ("all" as const) : parseFloat(args[1]);
+  const accountName = args[2] || "default";
+  const slippageBasisPoints = args[3] ? parseInt(args[3]) : 100;
+
+  if (sellAmount !== "all" && (isNaN(sellAmount) || sellAmount < 0)) {
+    console.error("Sell amount must be a non-negative number or 'all'");
+    process.exit(1);
+  }
+
+  if (isNaN(slippageBasisPoints) || slippageBasisPoints < 0) {
+    console.error("Slippage basis points must be a non-negative integer");
+    process.exit(1);
+  }
+
+  try {
+    const result = await quoteSell(
+      tokenAddress,
+      sellAmount,
+      accountName,
+      slippageBasisPoints
+    );
+
+    console.log("\nResult:");
+    const formattedResult = formatQuoteSellResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  quoteSell,
+  formatQuoteSellResult,
+  toQuoteSellStructuredContent,
+};
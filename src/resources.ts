@@ -0,0 +1,300 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  getTokenInfo,
+  toTokenInfoStructuredContent,
+} from "./get-token-info.js";
+import {
+  listAccounts,
+  toListAccountsStructuredContent,
+} from "./list-accounts.js";
+import {
+  getAccountBalance,
+  toAccountBalanceStructuredContent,
+} from "./get-token-balance.js";
+import { getPortfolio, toPortfolioStructuredContent } from "./get-portfolio.js";
+import { ErrorResult, PumpfunError, toToolError } from "./errors.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+
+export const ACCOUNTS_RESOURCE_URI = "pumpfun://accounts";
+export const ACCOUNT_RESOURCE_TEMPLATE = "pumpfun://account/{name}";
+export const POSITIONS_RESOURCE_TEMPLATE = "pumpfun://account/{name}/positions";
+export const TOKEN_RESOURCE_TEMPLATE = "pumpfun://token/{mint}";
+
+export type PumpfunResource =
+  | { type: "accounts" }
+  | { type: "account"; name: string }
+  | { type: "positions"; name: string }
+  | { type: "token"; mint: string };
+
+/**
+ * Called with the URI of a subscribed resource whose contents changed. The
+ * server sets one that sends resources/updated notifications.
+ */
+export type ResourceNotifier = (uri: string) => void | Promise<void>;
+
+// The last contents read for each subscribed URI, or null if the read failed
+const subscribedResources = new Map<string, string | null>();
+let resourceNotifier: ResourceNotifier | null = null;
+
+export function getAccountResourceUri(name: string) {
+  return `pumpfun://account/${encodeURIComponent(name)}`;
+}
+
+export function getPositionsResourceUri(name: string) {
+  return `pumpfun://account/${encodeURIComponent(name)}/positions`;
+}
+
+export function getTokenResourceUri(mint: string) {
+  return `pumpfun://token/${mint}`;
+}
+
+export function parseResourceUri(uri: string): PumpfunResource {
+  if (uri === ACCOUNTS_RESOURCE_URI) {
+    return { type: "accounts" };
+  }
+
+  const account = uri.match(/^pumpfun:\/\/account\/([^/]+)(\/positions)?$/);
+  if (account) {
+    const name = decodeURIComponent(account[1]);
+    return account[2] ? { type: "positions", name } : { type: "account", name };
+  }
+
+  const token = uri.match(/^pumpfun:\/\/token\/([^/]+)$/);
+  if (token) {
+    return { type: "token", mint: token[1] };
+  }
+
+  throw new PumpfunError("INVALID_INPUT", `Unknown resource URI: ${uri}`, {
+    uri,
+  });
+}
+
+function toPumpfunError(failure: ErrorResult) {
+  return new PumpfunError(
+    failure.code,
+    failure.error,
+    failure.context,
+    failure.retryable
+  );
+}
+
+function toJson(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Reads a resource as JSON, in the same shape as the structured content of
+ * the matching tool. Throws a PumpfunError when the read fails.
+ */
+export async function readResource(uri: string) {
+  const resource = parseResourceUri(uri);
+
+  let text: string;
+  switch (resource.type) {
+    case "accounts": {
+      const result = await listAccounts();
+      if (!result.success) {
+        throw toPumpfunError(result);
+      }
+      text = toJson(toListAccountsStructuredContent(result));
+      break;
+    }
+    case "account": {
+      const result = await getAccountBalance(resource.name);
+      if (!result.success) {
+        throw toPumpfunError(result);
+      }
+      text = toJson(toAccountBalanceStructuredContent(result));
+      break;
+    }
+    case "positions": {
+      const result = await getPortfolio(resource.name);
+      if (!result.success) {
+        throw toPumpfunError(result);
+      }
+      text = toJson(toPortfolioStructuredContent(result));
+      break;
+    }
+    case "token": {
+      try {
+        new PublicKey(resource.mint);
+      } catch {
+        throw new PumpfunError(
+          "INVALID_ADDRESS",
+          `Invalid token address: ${resource.mint}`,
+          { tokenAddress: resource.mint }
+        );
+      }
+      const tokenInfo = await getTokenInfo(resource.mint);
+      if (!tokenInfo) {
+        throw new PumpfunError(
+          "ACCOUNT_NOT_FOUND",
+          `No token found with address ${resource.mint}`,
+          { tokenAddress: resource.mint }
+        );
+      }
+      text = toJson(toTokenInfoStructuredContent(tokenInfo));
+      break;
+    }
+  }
+
+  return { uri, mimeType: "application/json", text };
+}
+
+/**
+ * Lists the names of the managed accounts, for listing and completing the
+ * account templates.
+ */
+export async function listAccountNames() {
+  const result = await listAccounts();
+  return result.success ? result.accounts.map((account) => account.name) : [];
+}
+
+/**
+ * Replaces the function change notifications are sent to. Pass null to stop
+ * sending them.
+ */
+export function setResourceNotifier(notifier: ResourceNotifier | null) {
+  resourceNotifier = notifier;
+}
+
+async function readForComparison(uri: string) {
+  try {
+    return (await readResource(uri)).text;
+  } catch (error: any) {
+    console.error(`Error reading resource ${uri}:`, toToolError(error).message);
+    return null;
+  }
+}
+
+/**
+ * Starts watching a resource for changes. Its current contents are read first
+ * so the next check has something to compare against.
+ */
+export async function subscribeResource(uri: string) {
+  parseResourceUri(uri);
+  if (subscribedResources.has(uri)) {
+    return;
+  }
+
+  subscribedResources.set(uri, null);
+  const contents = await readForComparison(uri);
+  if (subscribedResources.has(uri)) {
+    subscribedResources.set(uri, contents);
+  }
+}
+
+export function unsubscribeResource(uri: string) {
+  subscribedResources.delete(uri);
+}
+
+export function getSubscribedResources() {
+  return Array.from(subscribedResources.keys());
+}
+
+/**
+ * Re-reads every subscribed resource and notifies about the ones whose
+ * contents changed since the last check. Failed reads are not reported as
+ * changes; the next successful read is.
+ */
+export async function checkResourceUpdates() {
+  const updated: string[] = [];
+
+  for (const uri of getSubscribedResources()) {
+    const contents = await readForComparison(uri);
+    if (!subscribedResources.has(uri)) {
+      continue;
+    }
+
+    const previous = subscribedResources.get(uri);
+    subscribedResources.set(uri, contents ?? previous ?? null);
+    if (contents === null || contents === previous) {
+      continue;
+    }
+
+    updated.push(uri);
+    try {
+      await resourceNotifier?.(uri);
+    } catch (error: any) {
+      console.error(`Error notifying about resource ${uri}:`, error);
+    }
+  }
+
+  return updated;
+}
+
+export function getConfiguredPollInterval() {
+  const value = Number(
+    process.env.RESOURCE_POLL_INTERVAL_MS || DEFAULT_POLL_INTERVAL_MS
+  );
+  if (!Number.isInteger(value) || value < 1000) {
+    throw new Error(
+      `RESOURCE_POLL_INTERVAL_MS must be an integer of at least 1000, got "${process.env.RESOURCE_POLL_INTERVAL_MS}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Starts polling subscribed resources in the server process. Nothing is read
+ * while no resource is subscribed.
+ */
+export function startResourceWatcher(
+  intervalMs: number = getConfiguredPollInterval()
+) {
+  let checking = false;
+  const timer = setInterval(async () => {
+    if (checking || subscribedResources.size === 0) {
+      return;
+    }
+    checking = true;
+    try {
+      await checkResourceUpdates();
+    } catch (error: any) {
+      console.error("Error checking resource updates:", error);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return timer;
+}
+
+async function main() {
+  const uri = process.argv[2];
+  if (!uri) {
+    console.error("Usage: node resources.js <resource_uri>");
+    console.error("Example: node resources.js pumpfun://account/default");
+    process.exit(1);
+  }
+
+  try {
+    const contents = await readResource(uri);
+    console.log(contents.text);
+  } catch (error: any) {
+    console.error(`Error reading resource: ${toToolError(error).message}`);
+    process.exit(1);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  readResource,
+  parseResourceUri,
+  subscribeResource,
+  unsubscribeResource,
+  checkResourceUpdates,
+  startResourceWatcher,
+  setResourceNotifier,
+};
@@ -0,0 +1,755 @@
+import { PublicKey } from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { fetchVenuePrices } from "./get-portfolio.js";
+import { getPnl } from "./get-pnl.js";
+import { sellToken } from "./sell-token.js";
+import { resolveAddress } from "./list-accounts.js";
+import { dataFolder, ensureDataFolder } from "./trade-journal.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const ordersPath = path.join(dataFolder, "sell-orders.json");
+
+const DEFAULT_POLL_INTERVAL_MS = 10000;
+const MAX_EXECUTION_ATTEMPTS = 3;
+
+export type SellOrderType = "take-profit" | "stop-loss";
+
+export type SellOrderStatus =
+  | "open"
+  | "executing"
+  | "filled"
+  | "failed"
+  | "cancelled";
+
+export type SellOrder = {
+  id: string;
+  accountName: string;
+  tokenAddress: string;
+  type: SellOrderType;
+  triggerPrice: number;
+  referencePrice: number | null;
+  changePercent: number | null;
+  sellPercent: number;
+  slippageBasisPoints: number;
+  status: SellOrderStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  triggeredAt?: string;
+  triggeredPrice?: number;
+  signature?: string;
+  tokensSold?: number;
+  solReceived?: number;
+  lastError?: string;
+};
+
+export function readSellOrders(): SellOrder[] {
+  if (!fs.existsSync(ordersPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(ordersPath, "utf-8")) as SellOrder[];
+}
+
+function writeSellOrders(orders: SellOrder[]) {
+  ensureDataFolder();
+  const temporaryPath = `${ordersPath}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(orders, null, 2));
+  fs.renameSync(temporaryPath, ordersPath);
+}
+
+function findOrder(orders: SellOrder[], id: string) {
+  const order = orders.find((order) => order.id === id);
+  if (!order) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `No sell order with id ${id}. Use list-sell-orders to see order ids.`,
+      { orderId: id }
+    );
+  }
+  return order;
+}
+
+/**
+ * Applies a change to one order by re-reading the file first, so updates from
+ * the watcher and from tools in between are not lost.
+ */
+function updateSellOrder(id: string, changes: Partial<SellOrder>) {
+  const orders = readSellOrders();
+  const order = findOrder(orders, id);
+  Object.assign(order, changes, { updatedAt: new Date().toISOString() });
+  writeSellOrders(orders);
+  return order;
+}
+
+export function isTriggered(
+  type: SellOrderType,
+  triggerPrice: number,
+  price: number
+) {
+  return type === "take-profit" ? price >= triggerPrice : price <= triggerPrice;
+}
+
+/**
+ * Turns an absolute trigger price or a percentage change from the reference
+ * price into the price the order triggers at.
+ */
+export function resolveTriggerPrice(
+  type: SellOrderType,
+  trigger: { triggerPrice?: number; changePercent?: number },
+  referencePrice: number | null
+) {
+  if (
+    (trigger.triggerPrice === undefined) ===
+    (trigger.changePercent === undefined)
+  ) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      "Provide exactly one of triggerPrice or changePercent"
+    );
+  }
+
+  if (trigger.changePercent !== undefined) {
+    if (type === "take-profit" && trigger.changePercent <= 0) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "A take-profit changePercent must be positive, for example 100 to sell when the price doubles",
+        { changePercent: trigger.changePercent }
+      );
+    }
+    if (
+      type === "stop-loss" &&
+      (trigger.changePercent >= 0 || trigger.changePercent <= -100)
+    ) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "A stop-loss changePercent must be between -100 and 0, for example -40 to sell after a 40% drop",
+        { changePercent: trigger.changePercent }
+      );
+    }
+    return referencePrice! * (1 + trigger.changePercent / 100);
+  }
+
+  if (trigger.triggerPrice! <= 0) {
+    throw new PumpfunError("INVALID_INPUT", "triggerPrice must be positive", {
+      triggerPrice: trigger.triggerPrice,
+    });
+  }
+  return trigger.triggerPrice!;
+}
+
+async function getCurrentPrice(tokenAddress: string) {
+  const { sdk, connection } = initializeSDK();
+  const current = (await fetchVenuePrices(sdk, connection, [tokenAddress])).get(
+    tokenAddress
+  );
+
+  if (!current) {
+    throw new PumpfunError(
+      "ACCOUNT_NOT_FOUND",
+      `No open bonding curve or PumpSwap pool found for token ${tokenAddress}`,
+      { tokenAddress }
+    );
+  }
+
+  return current.price;
+}
+
+/**
+ * Uses the average FIFO cost of the open position in the trade journal as the
+ * entry price, so "sell if it drops 40% from entry" means the price paid.
+ */
+async function getEntryPrice(accountName: string, tokenAddress: string) {
+  const pnl = await getPnl(accountName, tokenAddress);
+  if (!pnl.success) {
+    return null;
+  }
+
+  const position = pnl.positions.find((position) => position.tokensHeld > 0);
+  return position ? position.costBasis / position.tokensHeld : null;
+}
+
+export async function placeSellOrder(
+  tokenAddress: string,
+  type: SellOrderType,
+  trigger: { triggerPrice?: number; changePercent?: number },
+  accountName: string = "default",
+  sellPercent: number = 100,
+  slippageBasisPoints: number = 100,
+  entryPrice?: number
+) {
+  try {
+    const account = await resolveAddress(accountName);
+    if (!account.accountName) {
+      throw new PumpfunError(
+        "ACCOUNT_NOT_FOUND",
+        `Sell orders need a managed account, but ${accountName} is only an address`,
+        { accountName }
+      );
+    }
+    const mintPublicKey = new PublicKey(tokenAddress);
+
+    if (sellPercent <= 0 || sellPercent > 100) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        "sellPercent must be greater than 0 and at most 100",
+        { sellPercent }
+      );
+    }
+
+    const { connection } = initializeSDK();
+    const tokenBalance =
+      (await getSPLBalance(connection, mintPublicKey, account.publicKey)) || 0;
+    if (tokenBalance === 0) {
+      throw new PumpfunError(
+        "NO_TOKEN_BALANCE",
+        `Account ${accountName} holds no tokens of ${tokenAddress} to sell`,
+        { accountName, tokenAddress }
+      );
+    }
+
+    const currentPrice = await getCurrentPrice(tokenAddress);
+    const referencePrice =
+      trigger.changePercent !== undefined
+        ? entryPrice ??
+          (await getEntryPrice(accountName, tokenAddress)) ??
+          currentPrice
+        : null;
+    const triggerPrice = resolveTriggerPrice(type, trigger, referencePrice);
+
+    if (isTriggered(type, triggerPrice, currentPrice)) {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `The current price of ${currentPrice} SOL already meets the ${type} trigger of ${triggerPrice} SOL. Use sell-token to sell now.`,
+        { currentPrice, triggerPrice }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const order: SellOrder = {
+      id: randomBytes(6).toString("hex"),
+      accountName,
+      tokenAddress,
+      type,
+      triggerPrice,
+      referencePrice,
+      changePercent: trigger.changePercent ?? null,
+      sellPercent,
+      slippageBasisPoints,
+      status: "open",
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+    };
+
+    writeSellOrders([...readSellOrders(), order]);
+
+    return { success: true as const, order, currentPrice };
+  } catch (error: any) {
+    console.error("Error placing sell order:", error);
+    return errorResult(error, { tokenAddress, accountName });
+  }
+}
+
+export async function listSellOrders(
+  filters: {
+    accountName?: string;
+    tokenAddress?: string;
+    status?: SellOrderStatus | "all";
+  } = {}
+) {
+  try {
+    const status = filters.status || "open";
+    const orders = readSellOrders().filter(
+      (order) =>
+        (!filters.accountName || order.accountName === filters.accountName) &&
+        (!filters.tokenAddress ||
+          order.tokenAddress === filters.tokenAddress) &&
+        (status === "all" || order.status === status)
+    );
+
+    return { success: true as const, status, orders };
+  } catch (error: any) {
+    console.error("Error listing sell orders:", error);
+    return errorResult(error);
+  }
+}
+
+export async function amendSellOrder(
+  id: string,
+  changes: {
+    triggerPrice?: number;
+    changePercent?: number;
+    sellPercent?: number;
+    slippageBasisPoints?: number;
+  }
+) {
+  try {
+    const order = findOrder(readSellOrders(), id);
+    if (order.status !== "open") {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `Sell order ${id} is ${order.status} and can no longer be amended`,
+        { orderId: id, status: order.status }
+      );
+    }
+
+    const update: Partial<SellOrder> = {};
+
+    if (
+      changes.triggerPrice !== undefined ||
+      changes.changePercent !== undefined
+    ) {
+      let referencePrice = order.referencePrice;
+      if (changes.changePercent !== undefined && referencePrice === null) {
+        referencePrice =
+          (await getEntryPrice(order.accountName, order.tokenAddress)) ??
+          (await getCurrentPrice(order.tokenAddress));
+      }
+
+      update.triggerPrice = resolveTriggerPrice(
+        order.type,
+        changes,
+        referencePrice
+      );
+      update.changePercent = changes.changePercent ?? null;
+      update.referencePrice =
+        changes.changePercent !== undefined ? referencePrice : null;
+    }
+
+    if (changes.sellPercent !== undefined) {
+      if (changes.sellPercent <= 0 || changes.sellPercent > 100) {
+        throw new PumpfunError(
+          "INVALID_INPUT",
+          "sellPercent must be greater than 0 and at most 100",
+          { sellPercent: changes.sellPercent }
+        );
+      }
+      update.sellPercent = changes.sellPercent;
+    }
+
+    if (changes.slippageBasisPoints !== undefined) {
+      update.slippageBasisPoints = changes.slippageBasisPoints;
+    }
+
+    return { success: true as const, order: updateSellOrder(id, update) };
+  } catch (error: any) {
+    console.error("Error amending sell order:", error);
+    return errorResult(error, { orderId: id });
+  }
+}
+
+export async function cancelSellOrder(id: string) {
+  try {
+    const order = findOrder(readSellOrders(), id);
+    if (order.status !== "open") {
+      throw new PumpfunError(
+        "INVALID_INPUT",
+        `Sell order ${id} is ${order.status} and cannot be cancelled`,
+        { orderId: id, status: order.status }
+      );
+    }
+
+    return {
+      success: true as const,
+      order: updateSellOrder(id, { status: "cancelled" }),
+    };
+  } catch (error: any) {
+    console.error("Error cancelling sell order:", error);
+    return errorResult(error, { orderId: id });
+  }
+}
+
+/**
+ * Returns the token amount for a partial order, or 0 when the order sells the
+ * whole position. A partial order never resolves to 0, because sellToken
+ * treats 0 as selling everything.
+ */
+async function getOrderSellAmount(order: SellOrder) {
+  if (order.sellPercent >= 100) {
+    return 0;
+  }
+
+  const { connection } = initializeSDK();
+  const { publicKey } = await resolveAddress(order.accountName);
+  const context = {
+    publicKey: publicKey.toString(),
+    tokenAddress: order.tokenAddress,
+  };
+  const balance = await getSPLBalance(
+    connection,
+    new PublicKey(order.tokenAddress),
+    publicKey
+  );
+  if (balance === null) {
+    throw new PumpfunError(
+      "RPC_UNAVAILABLE",
+      `Could not read the token balance of ${context.publicKey}`,
+      context
+    );
+  }
+
+  const sellAmount = Math.floor(balance * order.sellPercent * 10000) / 1000000;
+  if (sellAmount <= 0) {
+    throw new PumpfunError(
+      "NO_TOKEN_BALANCE",
+      `${order.sellPercent}% of the ${balance} token balance is too small to sell`,
+      { ...context, balance }
+    );
+  }
+
+  return sellAmount;
+}
+
+async function executeSellOrder(order: SellOrder, price: number) {
+  updateSellOrder(order.id, {
+    status: "executing",
+    triggeredAt: new Date().toISOString(),
+    triggeredPrice: price,
+  });
+  console.error(
+    `Sell order ${order.id} triggered: ${order.type} at ${price} SOL (trigger ${order.triggerPrice} SOL)`
+  );
+
+  let result;
+  try {
+    result = await sellToken(
+      order.tokenAddress,
+      await getOrderSellAmount(order),
+      order.accountName,
+      order.slippageBasisPoints
+    );
+  } catch (error: any) {
+    result = errorResult(error, { orderId: order.id });
+  }
+
+  if (result.success) {
+    return updateSellOrder(order.id, {
+      status: "filled",
+      attempts: order.attempts + 1,
+      signature: result.signature,
+      tokensSold: result.tokensSold,
+      solReceived: result.solReceived,
+      lastError: undefined,
+    });
+  }
+
+  const attempts = order.attempts + 1;
+  const retry = result.retryable && attempts < MAX_EXECUTION_ATTEMPTS;
+  console.error(
+    `Sell order ${order.id} failed (${result.code}), ${
+      retry ? "will retry" : "giving up"
+    }: ${result.error}`
+  );
+  return updateSellOrder(order.id, {
+    status: retry ? "open" : "failed",
+    attempts,
+    lastError: `${result.code}: ${result.error}`,
+  });
+}
+
+/**
+ * Checks every open order against the current price on the token's venue and
+ * sells through sellToken when a trigger is met. Orders on tokens that have
+ * graduated keep watching the PumpSwap pool; a completed curve whose pool is
+ * not there yet is checked again on the next poll.
+ */
+export async function checkSellOrders() {
+  const orders = readSellOrders().filter((order) => order.status === "open");
+  if (orders.length === 0) {
+    return [];
+  }
+
+  const { sdk, connection } = initializeSDK();
+  const prices = await fetchVenuePrices(
+    sdk,
+    connection,
+    Array.from(new Set(orders.map((order) => order.tokenAddress)))
+  );
+
+  const executed: SellOrder[] = [];
+  for (const order of orders) {
+    const current = prices.get(order.tokenAddress);
+    if (!current) {
+      continue;
+    }
+
+    const price = current.price;
+    if (isTriggered(order.type, order.triggerPrice, price)) {
+      executed.push(await executeSellOrder(order, price));
+    }
+  }
+
+  return executed;
+}
+
+export function getConfiguredPollInterval() {
+  const value = Number(
+    process.env.SELL_ORDER_POLL_INTERVAL_MS || DEFAULT_POLL_INTERVAL_MS
+  );
+  if (!Number.isInteger(value) || value < 1000) {
+    throw new Error(
+      `SELL_ORDER_POLL_INTERVAL_MS must be an integer of at least 1000, got "${process.env.SELL_ORDER_POLL_INTERVAL_MS}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Starts polling open orders in the server process. Orders left executing by
+ * a previous process are marked failed rather than retried, because their sell
+ * may already have landed.
+ */
+export function startSellOrderWatcher(
+  intervalMs: number = getConfiguredPollInterval()
+) {
+  for (const order of readSellOrders()) {
+    if (order.status === "executing") {
+      updateSellOrder(order.id, {
+        status: "failed",
+        lastError:
+          "The server stopped while this order was executing. Check get-trade-history to see whether the sell landed.",
+      });
+    }
+  }
+
+  let checking = false;
+  const timer = setInterval(async () => {
+    if (checking) {
+      return;
+    }
+    checking = true;
+    try {
+      await checkSellOrders();
+    } catch (error: any) {
+      console.error("Error checking sell orders:", error);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return timer;
+}
+
+function formatOrder(order: SellOrder) {
+  const trigger =
+    order.changePercent !== null
+      ? `${order.triggerPrice} SOL (${order.changePercent > 0 ? "+" : ""}${
+          order.changePercent
+        }% from ${order.referencePrice} SOL)`
+      : `${order.triggerPrice} SOL`;
+
+  const lines = [
+    `${order.id}: ${order.type} ${order.sellPercent}% of ${order.tokenAddress} (${order.status})`,
+    `  Account: ${order.accountName}`,
+    `  Trigger Price: ${trigger}`,
+    `  Slippage: ${order.slippageBasisPoints} basis points`,
+  ];
+
+  if (order.triggeredAt) {
+    lines.push(
+      `  Triggered: ${order.triggeredAt} at ${order.triggeredPrice} SOL`
+    );
+  }
+  if (order.signature) {
+    lines.push(
+      `  Sold ${order.tokensSold} tokens for ${order.solReceived} SOL (${order.signature})`
+    );
+  }
+  if (order.lastError) {
+    lines.push(`  Last Error: ${order.lastError}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatPlaceSellOrderResult(
+  result: ReturnType<typeof placeSellOrder> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error placing sell order: ${result.error}`;
+  }
+
+  return [
+    `Placed sell order`,
+    formatOrder(result.order),
+    `Current Price: ${result.currentPrice} SOL`,
+  ].join("\n");
+}
+
+export function formatListSellOrdersResult(
+  result: ReturnType<typeof listSellOrders> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error listing sell orders: ${result.error}`;
+  }
+
+  if (result.orders.length === 0) {
+    return result.status === "all"
+      ? "No sell orders found."
+      : `No ${result.status} sell orders found.`;
+  }
+
+  return result.orders.map(formatOrder).join("\n\n");
+}
+
+export function formatAmendSellOrderResult(
+  result: ReturnType<typeof amendSellOrder> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error amending sell order: ${result.error}`;
+  }
+
+  return [`Amended sell order`, formatOrder(result.order)].join("\n");
+}
+
+export function formatCancelSellOrderResult(
+  result: ReturnType<typeof cancelSellOrder> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error cancelling sell order: ${result.error}`;
+  }
+
+  return [`Cancelled sell order`, formatOrder(result.order)].join("\n");
+}
+
+const sellOrderSchema = z.object({
+  id: z.string(),
+  accountName: z.string(),
+  tokenAddress: z.string(),
+  type: z.enum(["take-profit", "stop-loss"]),
+  triggerPrice: z.string().describe("SOL per token"),
+  referencePrice: z.string().nullable(),
+  changePercent: z.number().nullable(),
+  sellPercent: z.number(),
+  slippageBasisPoints: z.number(),
+  status: z.enum(["open", "executing", "filled", "failed", "cancelled"]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  attempts: z.number(),
+  triggeredAt: z.string().optional(),
+  triggeredPrice: z.string().optional(),
+  signature: z.string().optional(),
+  tokensSold: z.string().optional(),
+  solReceived: z.string().optional(),
+  lastError: z.string().optional(),
+});
+
+export const sellOrderOutputSchema = {
+  order: sellOrderSchema,
+};
+
+export const placeSellOrderOutputSchema = {
+  order: sellOrderSchema,
+  currentPrice: z.string(),
+};
+
+export const listSellOrdersOutputSchema = {
+  status: z.string(),
+  orders: z.array(sellOrderSchema),
+};
+
+function optionalString(value: number | undefined) {
+  return value !== undefined ? String(value) : undefined;
+}
+
+export function toSellOrderStructuredContent(order: SellOrder) {
+  return {
+    ...order,
+    triggerPrice: String(order.triggerPrice),
+    referencePrice:
+      order.referencePrice !== null ? String(order.referencePrice) : null,
+    triggeredPrice: optionalString(order.triggeredPrice),
+    tokensSold: optionalString(order.tokensSold),
+    solReceived: optionalString(order.solReceived),
+  };
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  let formattedResult: string;
+  switch (command) {
+    case "place": {
+      const [tokenAddress, type, trigger, accountName, sellPercent] = args;
+      if (type !== "take-profit" && type !== "stop-loss") {
+        console.error("Order type must be take-profit or stop-loss");
+        process.exit(1);
+      }
+      formattedResult = formatPlaceSellOrderResult(
+        await placeSellOrder(
+          tokenAddress,
+          type,
+          trigger?.endsWith("%")
+            ? { changePercent: parseFloat(trigger) }
+            : { triggerPrice: parseFloat(trigger) },
+          accountName || "default",
+          sellPercent ? parseFloat(sellPercent) : 100
+        )
+      );
+      break;
+    }
+    case "list":
+      formattedResult = formatListSellOrdersResult(
+        await listSellOrders({
+          status: (args[0] as SellOrderStatus | "all") || "open",
+        })
+      );
+      break;
+    case "cancel":
+      formattedResult = formatCancelSellOrderResult(
+        await cancelSellOrder(args[0])
+      );
+      break;
+    case "check": {
+      const executed = await checkSellOrders();
+      formattedResult = executed.length
+        ? executed.map(formatOrder).join("\n\n")
+        : "No sell orders triggered.";
+      break;
+    }
+    default:
+      console.error("Usage:");
+      console.error(
+        "  node sell-orders.js place <token_address> <take-profit|stop-loss> <trigger_price|change_percent%> [account_name] [sell_percent]"
+      );
+      console.error(
+        "  node sell-orders.js list [open|filled|failed|cancelled|all]"
+      );
+      console.error("  node sell-orders.js cancel <order_id>");
+      console.error("  node sell-orders.js check");
+      process.exit(1);
+  }
+
+  console.log("\nResult:");
+  console.log(formattedResult);
+
+  const mcpResponse = createMcpResponse(formattedResult);
+
+  console.log("\nMCP Response (for reference):");
+  console.log(JSON.stringify(mcpResponse, null, 2));
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  placeSellOrder,
+  listSellOrders,
+  amendSellOrder,
+  cancelSellOrder,
+  checkSellOrders,
+  startSellOrderWatcher,
+};
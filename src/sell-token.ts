@@ -1,54 +1,54 @@
 import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
 import { initializeSDK, createMcpResponse } from "./get-token-info.js";
-import { getOrCreateKeypair, getSPLBalance, rootDir } from "./utils.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { resolveAccount } from "./list-accounts.js";
+import { recordTrade } from "./trade-journal.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  priorityFeeOutputSchema,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import { sendAndConfirm, toSendError } from "./send-transaction.js";
+import { simulateTransaction, toSimulationError } from "./simulate-trade.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { enforceSpendingPolicy } from "./spending-policy.js";
+import { amountToTokenUnits } from "./bonding-curve.js";
+import {
+  formatVenue,
+  getPoolSellTransaction,
+  resolveTradingVenue,
+  venueOutputSchema,
+} from "./pump-swap.js";
 import path from "path";
-import fs from "fs";
 import dotenv from "dotenv";
+import { z } from "zod";
 
 dotenv.config({ path: path.join(rootDir, ".env") });
 
-const DEFAULT_PRIORITY_FEES = {
-  unitLimit: 250000,
-  unitPrice: 250000,
-};
-
 export async function sellToken(
   tokenAddress: string,
   sellAmount: number = 0,
   accountName: string = "default",
-  slippageBasisPoints: number = 100
+  slippageBasisPoints: number = 100,
+  priorityFeeOptions: PriorityFeeOptions = {}
 ) {
   try {
     console.error("Starting sellToken function");
     const { sdk, connection } = initializeSDK();
     console.error("SDK initialized");
 
-    const keysFolder = path.resolve(rootDir, ".keys");
-    console.error(`Using keys folder path relative to script: ${keysFolder}`);
-
-    console.error(
-      `Checking if keys folder exists: ${fs.existsSync(keysFolder)}`
-    );
-    if (!fs.existsSync(keysFolder)) {
-      console.error(`Creating keys folder: ${keysFolder}`);
-      try {
-        fs.mkdirSync(keysFolder, { recursive: true });
-        console.error(`Keys folder created successfully`);
-      } catch (mkdirError: any) {
-        console.error(`Error creating keys folder:`, mkdirError);
-        return {
-          success: false,
-          error: `Error creating keys folder: ${
-            mkdirError.message || JSON.stringify(mkdirError)
-          }`,
-        };
-      }
-    }
-
-    console.error(`Getting or creating keypair from folder: ${keysFolder}`);
-    const account = getOrCreateKeypair(keysFolder, accountName);
+    const account = await resolveAccount(accountName);
     console.log(`Using account: ${account.publicKey.toString()}`);
 
+    enforceSpendingPolicy({
+      accountName,
+      publicKey: account.publicKey,
+      side: "sell",
+      mint: tokenAddress,
+      slippageBasisPoints,
+    });
+
     const mintPublicKey = new PublicKey(tokenAddress);
     console.log(`Token address: ${tokenAddress}`);
 
@@ -62,7 +62,12 @@ export async function sellToken(
     if (!tokenBalance || tokenBalance === 0) {
       const errorMessage = `No tokens to sell. Account ${account.publicKey.toString()} has 0 tokens of ${tokenAddress}.`;
       console.error(errorMessage);
-      return { success: false, error: errorMessage };
+      return errorResult(
+        new PumpfunError("NO_TOKEN_BALANCE", errorMessage, {
+          publicKey: account.publicKey.toString(),
+          tokenAddress,
+        })
+      );
     }
 
     const amountToSell =
@@ -74,24 +79,59 @@ export async function sellToken(
       `Initial SOL balance: ${initialSolBalance / LAMPORTS_PER_SOL} SOL`
     );
 
+    const venue = await resolveTradingVenue(sdk, connection, mintPublicKey);
+    console.error(`Venue: ${formatVenue(venue.venue)}`);
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      [venue.address]
+    );
+    console.error(`Priority fee: ${formatPriorityFees(priorityFees)}`);
+
     console.log(`Selling ${amountToSell} tokens...`);
-    const result = await sdk.sell(
-      account,
-      mintPublicKey,
-      BigInt(amountToSell * Math.pow(10, 6)),
-      BigInt(slippageBasisPoints),
-      DEFAULT_PRIORITY_FEES
+    const sellUnits = amountToTokenUnits(amountToSell);
+    const transaction =
+      venue.venue === "pumpswap"
+        ? await getPoolSellTransaction(
+            connection,
+            venue.address,
+            account.publicKey,
+            sellUnits,
+            BigInt(slippageBasisPoints)
+          )
+        : await sdk.getSellInstructionsByTokenAmount(
+            account.publicKey,
+            mintPublicKey,
+            sellUnits,
+            BigInt(slippageBasisPoints)
+          );
+    const simulation = await simulateTransaction(
+      connection,
+      transaction,
+      account.publicKey,
+      priorityFees,
+      mintPublicKey
+    );
+    if (!simulation.ok) {
+      console.error(`Simulation failed:`, simulation.error);
+      return errorResult(toSimulationError(simulation, { tokenAddress }));
+    }
+    console.error(`Simulation used ${simulation.unitsConsumed} compute units`);
+
+    const result = await sendAndConfirm(
+      connection,
+      transaction,
+      account.publicKey,
+      [account],
+      priorityFees
     );
 
-    if (!result.success) {
+    if (result.status !== "confirmed") {
       console.error(`Failed to sell token:`, result.error);
       return {
-        success: false,
-        error: result.error
-          ? typeof result.error === "object"
-            ? JSON.stringify(result.error)
-            : result.error
-          : "Unknown error",
+        ...errorResult(toSendError(result, { tokenAddress })),
+        status: result.status,
       };
     }
 
@@ -106,37 +146,30 @@ export async function sellToken(
       (await getSPLBalance(connection, mintPublicKey, account.publicKey)) || 0;
     console.log(`New token balance: ${newTokenBalance}`);
 
+    await recordTrade(sdk, {
+      accountName,
+      publicKey: account.publicKey,
+      mint: tokenAddress,
+      side: "sell",
+      signature: result.signature,
+      transaction: result.transaction,
+      fallback: { solAmount: solReceived, tokenAmount: amountToSell },
+    });
+
     return {
-      success: true,
+      success: true as const,
       tokenAddress,
       tokensSold: amountToSell,
       solReceived,
       newTokenBalance,
+      venue: venue.venue,
+      priorityFees,
       signature: result.signature,
       pumpfunUrl: `https://pump.fun/${tokenAddress}`,
     };
   } catch (error: any) {
     console.error("Error selling token:", error);
-    console.error("Error stack:", error.stack);
-
-    let errorMessage = "Unknown error";
-    if (error) {
-      if (typeof error === "object") {
-        if (error.message) {
-          errorMessage = error.message;
-        } else {
-          try {
-            errorMessage = JSON.stringify(error);
-          } catch (e) {
-            errorMessage = "Error object could not be stringified";
-          }
-        }
-      } else {
-        errorMessage = String(error);
-      }
-    }
-
-    return { success: false, error: errorMessage };
+    return errorResult(error, { tokenAddress, accountName });
   }
 }
 
@@ -153,11 +186,42 @@ export function formatSellResult(
     `Tokens Sold: ${result.tokensSold}`,
     `SOL Received: ${result.solReceived} SOL`,
     `Remaining Token Balance: ${result.newTokenBalance}`,
+    `Venue: ${formatVenue(result.venue)}`,
+    `Priority Fee: ${formatPriorityFees(result.priorityFees)}`,
     `Transaction Signature: ${result.signature}`,
     `Pump.fun URL: ${result.pumpfunUrl}`,
   ].join("\n");
 }
 
+export const sellOutputSchema = {
+  tokenAddress: z.string(),
+  tokensSold: z.string(),
+  solReceived: z.string(),
+  newTokenBalance: z.string(),
+  venue: venueOutputSchema,
+  priorityFees: priorityFeeOutputSchema,
+  signature: z.string().optional(),
+  pumpfunUrl: z.string(),
+};
+
+export function toSellStructuredContent(
+  result: Extract<
+    ReturnType<typeof sellToken> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    tokensSold: String(result.tokensSold),
+    solReceived: String(result.solReceived),
+    newTokenBalance: String(result.newTokenBalance),
+    venue: result.venue,
+    priorityFees: result.priorityFees,
+    signature: result.signature,
+    pumpfunUrl: result.pumpfunUrl,
+  };
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -223,4 +287,5 @@ if (isMainModule) {
 export default {
   sellToken,
   formatSellResult,
+  toSellStructuredContent,
 };
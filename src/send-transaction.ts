@@ -0,0 +1,329 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Finality,
+  Keypair,
+  PublicKey,
+  SendTransactionError,
+  SignatureStatus,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { PriorityFee } from "pumpdotfun-sdk";
+import bs58 from "bs58";
+import {
+  DecodedProgramError,
+  decodeTransactionError,
+  formatProgramError,
+} from "./program-errors.js";
+import {
+  ErrorCode,
+  ErrorContext,
+  PumpfunError,
+  getProgramErrorCode,
+  toToolError,
+} from "./errors.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const RESEND_INTERVAL_MS = 2000;
+// A blockhash is valid for about 150 blocks, roughly a minute, so this only
+// ends the wait when the RPC cannot tell us what happened
+export const MAX_CONFIRM_WAIT_MS = 180000;
+
+/**
+ * "unknown" means the transaction was broadcast but the RPC could not report
+ * its outcome in time. It may still land, so it must not be sent again.
+ */
+export type SendStatus = "confirmed" | "failed" | "expired" | "unknown";
+
+export type SendResult = {
+  status: SendStatus;
+  signature: string;
+  error?: string;
+  programError?: DecodedProgramError;
+  logs?: string[];
+  transaction?: VersionedTransactionResponse;
+  attempts: number;
+};
+
+export function getConfiguredCommitment(): Finality {
+  const commitment = process.env.TX_COMMITMENT || "confirmed";
+  if (commitment !== "confirmed" && commitment !== "finalized") {
+    throw new Error(
+      `TX_COMMITMENT must be "confirmed" or "finalized", got "${commitment}"`
+    );
+  }
+  return commitment;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function buildTransaction(
+  transaction: Transaction,
+  payer: PublicKey,
+  blockhash: string,
+  priorityFees?: PriorityFee
+) {
+  const instructions = [...transaction.instructions];
+  if (priorityFees) {
+    instructions.unshift(
+      ComputeBudgetProgram.setComputeUnitLimit({
+        units: priorityFees.unitLimit,
+      }),
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: priorityFees.unitPrice,
+      })
+    );
+  }
+
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message()
+  );
+}
+
+export function isCommitted(
+  status: SignatureStatus | null,
+  commitment: Finality
+) {
+  return (
+    status?.confirmationStatus === "finalized" ||
+    (commitment === "confirmed" && status?.confirmationStatus === "confirmed")
+  );
+}
+
+// The transaction details are only used for reporting, so a failed lookup
+// does not change the outcome
+export async function fetchTransaction(
+  connection: Connection,
+  signature: string,
+  commitment: Finality
+) {
+  try {
+    const details = await connection.getTransaction(signature, {
+      commitment,
+      maxSupportedTransactionVersion: 0,
+    });
+    return details || undefined;
+  } catch (error: any) {
+    console.error("Error fetching transaction details:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Signs and sends a transaction, rebroadcasting it until it reaches the
+ * requested commitment or its blockhash expires. A transaction that expired
+ * never landed, so it is safe to rebuild and send again. Only a preflight
+ * rejection counts as never sent; any other error from the first send may
+ * have reached the network, so the transaction is watched like one that was
+ * sent. RPC errors while waiting are retried until MAX_CONFIRM_WAIT_MS, after
+ * which the status is unknown.
+ */
+export async function sendAndConfirm(
+  connection: Connection,
+  transaction: Transaction,
+  payer: PublicKey,
+  signers: Keypair[],
+  priorityFees?: PriorityFee,
+  commitment: Finality = getConfiguredCommitment()
+): Promise<SendResult> {
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash(commitment);
+
+  const versionedTransaction = buildTransaction(
+    transaction,
+    payer,
+    blockhash,
+    priorityFees
+  );
+  versionedTransaction.sign(signers);
+  const rawTransaction = versionedTransaction.serialize();
+
+  // Known before sending, so a send that errors after reaching the network
+  // can still be looked up instead of reported as never sent
+  const signature = bs58.encode(versionedTransaction.signatures[0]);
+  let lastRpcError: string | undefined;
+  try {
+    await connection.sendRawTransaction(rawTransaction, {
+      skipPreflight: false,
+      preflightCommitment: commitment,
+      maxRetries: 0,
+    });
+  } catch (error: any) {
+    if (error instanceof SendTransactionError) {
+      const logs = await error.getLogs(connection).catch(() => error.logs);
+      return {
+        status: "failed",
+        signature: "",
+        error: `Transaction was rejected before sending: ${
+          error.message || "Unknown error"
+        }`,
+        logs,
+        attempts: 1,
+      };
+    }
+    lastRpcError = error?.message || "Unknown error";
+    console.error("Error sending transaction:", error);
+  }
+
+  let attempts = 1;
+  const deadline = Date.now() + MAX_CONFIRM_WAIT_MS;
+  while (Date.now() < deadline) {
+    let status: SignatureStatus | null;
+    let expired = false;
+    try {
+      const { value: statuses } = await connection.getSignatureStatuses([
+        signature,
+      ]);
+      status = statuses[0];
+
+      if (!status?.err && !isCommitted(status, commitment)) {
+        const blockHeight = await connection.getBlockHeight(commitment);
+        if (blockHeight > lastValidBlockHeight) {
+          // One last look in case it landed between the two calls
+          const { value: finalStatuses } =
+            await connection.getSignatureStatuses([signature], {
+              searchTransactionHistory: true,
+            });
+          status = finalStatuses[0];
+          expired = !status;
+        }
+      }
+    } catch (error: any) {
+      lastRpcError = error?.message || "Unknown error";
+      console.error("Error checking transaction status:", error);
+      await sleep(RESEND_INTERVAL_MS);
+      continue;
+    }
+
+    if (status?.err) {
+      const details = await fetchTransaction(
+        connection,
+        signature,
+        "confirmed"
+      );
+      const programError = decodeTransactionError(
+        status.err,
+        versionedTransaction.message
+      );
+      return {
+        status: "failed",
+        signature,
+        error: formatProgramError(programError),
+        programError,
+        logs: details?.meta?.logMessages || undefined,
+        transaction: details,
+        attempts,
+      };
+    }
+
+    if (isCommitted(status, commitment)) {
+      return {
+        status: "confirmed",
+        signature,
+        transaction: await fetchTransaction(connection, signature, commitment),
+        attempts,
+      };
+    }
+
+    if (expired) {
+      return {
+        status: "expired",
+        signature,
+        error:
+          "Blockhash expired before the transaction was confirmed. It did not land and is safe to retry.",
+        attempts,
+      };
+    }
+
+    await sleep(RESEND_INTERVAL_MS);
+
+    if (!status) {
+      attempts++;
+      await connection
+        .sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        })
+        .catch((error) => console.error("Error rebroadcasting:", error));
+    }
+  }
+
+  return {
+    status: "unknown",
+    signature,
+    error: `Could not confirm the transaction within ${
+      MAX_CONFIRM_WAIT_MS / 1000
+    } seconds${
+      lastRpcError ? ` (last RPC error: ${lastRpcError})` : ""
+    }. It may still land; check the signature before trying again.`,
+    attempts,
+  };
+}
+
+export function formatSendFailure(result: SendResult) {
+  const lines = [
+    result.status === "expired"
+      ? `Transaction expired: ${result.error}`
+      : result.status === "unknown"
+      ? `Transaction status unknown: ${result.error}`
+      : `Transaction failed: ${result.error}`,
+  ];
+
+  if (result.signature) {
+    lines.push(`Signature: ${result.signature}`);
+  }
+
+  if (result.logs?.length) {
+    lines.push("Program logs:", ...result.logs.map((log) => `  ${log}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Wraps a failed send in a PumpfunError. Expired transactions never landed and
+ * can be retried; a rejection before a signature exists is usually the RPC.
+ * An unknown outcome is never retryable, since the transaction may land.
+ */
+export function toSendError(result: SendResult, context: ErrorContext = {}) {
+  let code: ErrorCode = "TRANSACTION_FAILED";
+  if (result.status === "expired") {
+    code = "TRANSACTION_EXPIRED";
+  } else if (result.status === "unknown") {
+    code = "TRANSACTION_UNCONFIRMED";
+  } else if (result.programError) {
+    code = getProgramErrorCode(result.programError);
+  } else if (
+    !result.signature &&
+    toToolError(result.error).code === "RPC_UNAVAILABLE"
+  ) {
+    code = "RPC_UNAVAILABLE";
+  }
+
+  return new PumpfunError(code, formatSendFailure(result), {
+    ...context,
+    status: result.status,
+    ...(result.signature ? { signature: result.signature } : {}),
+    ...(result.programError ? { programError: result.programError } : {}),
+  });
+}
+
+export default {
+  sendAndConfirm,
+  buildTransaction,
+  formatSendFailure,
+  toSendError,
+};
@@ -0,0 +1,382 @@
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { PriorityFee } from "pumpdotfun-sdk";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { resolveAddress } from "./list-accounts.js";
+import { buildTransaction } from "./send-transaction.js";
+import {
+  DecodedProgramError,
+  decodeTransactionError,
+  formatProgramError,
+} from "./program-errors.js";
+import {
+  ErrorContext,
+  PumpfunError,
+  errorResult,
+  getProgramErrorCode,
+} from "./errors.js";
+import {
+  PriorityFeeOptions,
+  formatPriorityFees,
+  resolvePriorityFees,
+} from "./priority-fees.js";
+import {
+  amountToTokenUnits,
+  lamportsToSol,
+  solToLamports,
+  tokenUnitsToAmount,
+} from "./bonding-curve.js";
+import {
+  formatVenue,
+  getPoolBuyTransaction,
+  getPoolSellTransaction,
+  resolveTradingVenue,
+  venueOutputSchema,
+} from "./pump-swap.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+// SPL token accounts store the amount as a u64 after the mint and owner keys
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+export type SimulationReport = {
+  ok: boolean;
+  unitsConsumed: number | null;
+  unitLimit: number | null;
+  solChange: number;
+  tokenChange: number | null;
+  error?: DecodedProgramError;
+  logs: string[];
+};
+
+function readTokenAmount(data: Buffer | undefined) {
+  if (!data || data.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    return 0n;
+  }
+  return data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Simulates a transaction against the latest state without signing it, and
+ * reports compute units, the payer's SOL change and, when a mint is given, the
+ * change in the payer's token balance.
+ */
+export async function simulateTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  payer: PublicKey,
+  priorityFees?: PriorityFee,
+  mint?: PublicKey
+): Promise<SimulationReport> {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const versionedTransaction = buildTransaction(
+    transaction,
+    payer,
+    blockhash,
+    priorityFees
+  );
+
+  const addresses = [payer];
+  if (mint) {
+    addresses.push(getAssociatedTokenAddressSync(mint, payer, true));
+  }
+
+  const before = await connection.getMultipleAccountsInfo(addresses);
+  const { value } = await connection.simulateTransaction(versionedTransaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: {
+      encoding: "base64",
+      addresses: addresses.map((address) => address.toString()),
+    },
+  });
+
+  const after = value.accounts || [];
+  const solChange =
+    after[0] && before[0]
+      ? lamportsToSol(after[0].lamports - before[0].lamports)
+      : 0;
+
+  let tokenChange: number | null = null;
+  if (mint && after[1] !== undefined) {
+    const afterAmount = after[1]
+      ? readTokenAmount(Buffer.from(after[1].data[0], "base64"))
+      : 0n;
+    const beforeAmount = readTokenAmount(before[1]?.data);
+    tokenChange = tokenUnitsToAmount(afterAmount - beforeAmount);
+  }
+
+  return {
+    ok: !value.err,
+    unitsConsumed: value.unitsConsumed ?? null,
+    unitLimit: priorityFees?.unitLimit ?? null,
+    solChange,
+    tokenChange,
+    error: value.err
+      ? decodeTransactionError(value.err, versionedTransaction.message)
+      : undefined,
+    logs: value.logs || [],
+  };
+}
+
+export function formatSimulationFailure(report: SimulationReport) {
+  const lines = [
+    `Simulation failed, nothing was sent: ${
+      report.error ? formatProgramError(report.error) : "Unknown error"
+    }`,
+  ];
+
+  if (report.logs.length) {
+    lines.push("Program logs:", ...report.logs.map((log) => `  ${log}`));
+  }
+
+  return lines.join("\n");
+}
+
+export function toSimulationError(
+  report: SimulationReport,
+  context: ErrorContext = {}
+) {
+  return new PumpfunError(
+    report.error ? getProgramErrorCode(report.error) : "TRANSACTION_FAILED",
+    formatSimulationFailure(report),
+    { ...context, ...(report.error ? { programError: report.error } : {}) }
+  );
+}
+
+export async function simulateTrade(
+  side: "buy" | "sell",
+  tokenAddress: string,
+  amount: number,
+  accountName: string = "default",
+  slippageBasisPoints: number = 100,
+  priorityFeeOptions: PriorityFeeOptions = {}
+) {
+  try {
+    const { sdk, connection } = initializeSDK();
+    const account = await resolveAddress(accountName);
+    const mintPublicKey = new PublicKey(tokenAddress);
+    const venue = await resolveTradingVenue(sdk, connection, mintPublicKey);
+
+    let transaction: Transaction;
+    let tradeAmount = amount;
+    if (side === "buy") {
+      const buyLamports = solToLamports(amount);
+      transaction =
+        venue.venue === "pumpswap"
+          ? await getPoolBuyTransaction(
+              connection,
+              venue.address,
+              account.publicKey,
+              buyLamports,
+              BigInt(slippageBasisPoints)
+            )
+          : await sdk.getBuyInstructionsBySolAmount(
+              account.publicKey,
+              mintPublicKey,
+              buyLamports,
+              BigInt(slippageBasisPoints)
+            );
+    } else {
+      const tokenBalance =
+        (await getSPLBalance(connection, mintPublicKey, account.publicKey)) ||
+        0;
+      tradeAmount = amount === 0 ? tokenBalance : amount;
+      const sellUnits = amountToTokenUnits(tradeAmount);
+      transaction =
+        venue.venue === "pumpswap"
+          ? await getPoolSellTransaction(
+              connection,
+              venue.address,
+              account.publicKey,
+              sellUnits,
+              BigInt(slippageBasisPoints)
+            )
+          : await sdk.getSellInstructionsByTokenAmount(
+              account.publicKey,
+              mintPublicKey,
+              sellUnits,
+              BigInt(slippageBasisPoints)
+            );
+    }
+
+    const priorityFees = await resolvePriorityFees(
+      connection,
+      priorityFeeOptions,
+      [venue.address]
+    );
+    const report = await simulateTransaction(
+      connection,
+      transaction,
+      account.publicKey,
+      priorityFees,
+      mintPublicKey
+    );
+
+    return {
+      success: true as const,
+      side,
+      tokenAddress,
+      amount: tradeAmount,
+      accountName: account.accountName,
+      publicKey: account.publicKey.toString(),
+      venue: venue.venue,
+      priorityFees,
+      ...report,
+    };
+  } catch (error: any) {
+    console.error("Error simulating trade:", error);
+    return errorResult(error, { side, tokenAddress, accountName });
+  }
+}
+
+export function formatSimulateTradeResult(
+  result: ReturnType<typeof simulateTrade> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error simulating trade: ${result.error}`;
+  }
+
+  const lines = [
+    `Simulated ${result.side} (nothing was signed or sent)`,
+    `Token Address: ${result.tokenAddress}`,
+    `Account: ${
+      result.accountName
+        ? `${result.accountName} (${result.publicKey})`
+        : result.publicKey
+    }`,
+    `Amount: ${result.amount}${result.side === "buy" ? " SOL" : " tokens"}`,
+    `Venue: ${formatVenue(result.venue)}`,
+    `Result: ${result.ok ? "would succeed" : "would fail"}`,
+  ];
+
+  if (result.error) {
+    lines.push(`Error: ${formatProgramError(result.error)}`);
+  }
+
+  lines.push(
+    `Compute Units: ${result.unitsConsumed ?? "unknown"} of ${
+      result.unitLimit ?? "default"
+    }`,
+    `Priority Fee: ${formatPriorityFees(result.priorityFees)}`,
+    `Expected SOL Change: ${result.solChange} SOL`,
+    `Expected Token Change: ${result.tokenChange ?? "unknown"}`
+  );
+
+  if (!result.ok && result.logs.length) {
+    lines.push("Program logs:", ...result.logs.map((log) => `  ${log}`));
+  }
+
+  return lines.join("\n");
+}
+
+export const simulateTradeOutputSchema = {
+  side: z.enum(["buy", "sell"]),
+  tokenAddress: z.string(),
+  amount: z.string(),
+  accountName: z.string().optional(),
+  publicKey: z.string(),
+  venue: venueOutputSchema,
+  ok: z.boolean(),
+  unitsConsumed: z.number().nullable(),
+  unitLimit: z.number().nullable(),
+  solChange: z.string(),
+  tokenChange: z.string().nullable(),
+  error: z
+    .object({
+      message: z.string(),
+      name: z.string().optional(),
+      code: z.number().optional(),
+      programId: z.string().optional(),
+      instructionIndex: z.number().optional(),
+    })
+    .optional(),
+  logs: z.array(z.string()),
+};
+
+export function toSimulateTradeStructuredContent(
+  result: Extract<
+    ReturnType<typeof simulateTrade> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    side: result.side,
+    tokenAddress: result.tokenAddress,
+    amount: String(result.amount),
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    venue: result.venue,
+    ok: result.ok,
+    unitsConsumed: result.unitsConsumed,
+    unitLimit: result.unitLimit,
+    solChange: String(result.solChange),
+    tokenChange:
+      result.tokenChange !== null ? String(result.tokenChange) : null,
+    error: result.error,
+    logs: result.logs,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 3 || (args[0] !== "buy" && args[0] !== "sell")) {
+    console.error(
+      "Usage: node simulate-trade.js <buy|sell> <token_address> <amount> [account_name_or_address] [slippage_basis_points]"
+    );
+    console.error(
+      "Example: node simulate-trade.js buy G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump 0.1 default 100"
+    );
+    process.exit(1);
+  }
+
+  const side = args[0];
+  const tokenAddress = args[1];
+  const amount = parseFloat(args[2]);
+  const accountName = args[3] || "default";
+  const slippageBasisPoints = args[4] ? parseInt(args[4]) : 100;
+
+  if (isNaN(amount) || amount < 0) {
+    console.error("Amount must be a non-negative number");
+    process.exit(1);
+  }
+
+  try {
+    const result = await simulateTrade(
+      side,
+      tokenAddress,
+      amount,
+      accountName,
+      slippageBasisPoints
+    );
+
+    console.log("\nResult:");
+    const formattedResult = formatSimulateTradeResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  simulateTransaction,
+  simulateTrade,
+  toSimulationError,
+  formatSimulateTradeResult,
+  toSimulateTradeStructuredContent,
+};
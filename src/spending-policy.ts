@@ -0,0 +1,436 @@
+import { PublicKey } from "@solana/web3.js";
+import { createMcpResponse } from "./get-token-info.js";
+import { resolveAddress } from "./list-accounts.js";
+import { readJournal } from "./trade-journal.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import { rootDir } from "./utils.js";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const spendingLimitsSchema = z
+  .object({
+    maxSolPerTrade: z.number().positive().optional(),
+    maxSolPer24h: z.number().positive().optional(),
+    maxSlippageBasisPoints: z.number().int().nonnegative().optional(),
+    allowedMints: z.array(z.string()).optional(),
+    deniedMints: z.array(z.string()).optional(),
+  })
+  .strict();
+
+const spendingPolicySchema = z
+  .object({
+    default: spendingLimitsSchema.optional(),
+    accounts: z.record(spendingLimitsSchema).optional(),
+  })
+  .strict();
+
+export type SpendingLimits = z.infer<typeof spendingLimitsSchema>;
+export type SpendingPolicy = z.infer<typeof spendingPolicySchema>;
+
+export type SpendingTrade = {
+  accountName: string;
+  publicKey: PublicKey;
+  side: "buy" | "sell" | "create";
+  mint?: string;
+  solAmount?: number;
+  slippageBasisPoints: number;
+};
+
+type SpendingReservation = { publicKey: string; solAmount: number };
+
+// Buys and creates that passed the policy but are not in the journal yet
+const reservations = new Set<SpendingReservation>();
+
+export function getPolicyPath() {
+  return path.resolve(
+    rootDir,
+    process.env.SPENDING_POLICY_FILE || "spending-policy.json"
+  );
+}
+
+/**
+ * Reads the policy file on every call so edits apply without a restart.
+ * Returns null when there is no policy file, which means no limits.
+ */
+export function loadSpendingPolicy(): SpendingPolicy | null {
+  const policyPath = getPolicyPath();
+  if (!fs.existsSync(policyPath)) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(policyPath, "utf-8"));
+  } catch (error: any) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Spending policy ${policyPath} is not valid JSON: ${error?.message}`,
+      { policyPath }
+    );
+  }
+
+  const parsed = spendingPolicySchema.safeParse(data);
+  if (!parsed.success) {
+    throw new PumpfunError(
+      "INVALID_INPUT",
+      `Spending policy ${policyPath} is invalid: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`,
+      { policyPath }
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Account entries override the default entry field by field, so an account
+ * can raise one limit and inherit the rest.
+ */
+export function getAccountLimits(
+  policy: SpendingPolicy | null,
+  accountName: string | undefined
+): SpendingLimits {
+  if (!policy) {
+    return {};
+  }
+
+  return {
+    ...policy.default,
+    ...(accountName ? policy.accounts?.[accountName] : undefined),
+  };
+}
+
+/**
+ * Sums the SOL spent on buys and creates recorded in the trade journal over
+ * the last 24 hours. Sells do not give budget back.
+ */
+export function getSpentInWindow(publicKey: string, now: number = Date.now()) {
+  const windowStart = now - BUDGET_WINDOW_MS;
+  const entries = readJournal().filter(
+    (entry) =>
+      entry.publicKey === publicKey &&
+      entry.side !== "sell" &&
+      Date.parse(entry.timestamp) > windowStart
+  );
+
+  const oldest = entries.reduce<number | null>((earliest, entry) => {
+    const time = Date.parse(entry.timestamp);
+    return earliest === null || time < earliest ? time : earliest;
+  }, null);
+
+  return {
+    spent: entries.reduce((total, entry) => total + entry.solAmount, 0),
+    trades: entries.length,
+    nextRelease: oldest !== null ? oldest + BUDGET_WINDOW_MS : null,
+  };
+}
+
+/**
+ * Sums the SOL of trades in progress for an account, which count against its
+ * 24 hour budget until they are journaled or fail.
+ */
+export function getReservedSol(publicKey: string) {
+  let reserved = 0;
+  for (const reservation of reservations) {
+    if (reservation.publicKey === publicKey) {
+      reserved += reservation.solAmount;
+    }
+  }
+  return reserved;
+}
+
+function violation(
+  message: string,
+  context: Record<string, unknown>
+): PumpfunError {
+  return new PumpfunError(
+    "POLICY_VIOLATION",
+    `${message} Edit ${getPolicyPath()} to change this limit.`,
+    context
+  );
+}
+
+/**
+ * Checks a trade against the spending policy before anything is signed and
+ * throws a POLICY_VIOLATION error explaining the first rule it breaks. Mint
+ * lists apply to buys and SOL limits to buys and creates, so positions can
+ * always be exited; the slippage limit applies to every trade.
+ */
+export function enforceSpendingPolicy(trade: SpendingTrade) {
+  const limits = getAccountLimits(loadSpendingPolicy(), trade.accountName);
+  const context = {
+    accountName: trade.accountName,
+    side: trade.side,
+    ...(trade.mint ? { mint: trade.mint } : {}),
+  };
+
+  if (
+    limits.maxSlippageBasisPoints !== undefined &&
+    trade.slippageBasisPoints > limits.maxSlippageBasisPoints
+  ) {
+    throw violation(
+      `Slippage of ${trade.slippageBasisPoints} basis points exceeds the limit of ${limits.maxSlippageBasisPoints} for account ${trade.accountName}.`,
+      {
+        ...context,
+        rule: "maxSlippageBasisPoints",
+        limit: limits.maxSlippageBasisPoints,
+        requested: trade.slippageBasisPoints,
+      }
+    );
+  }
+
+  if (trade.side === "sell") {
+    return;
+  }
+
+  if (trade.side === "buy" && trade.mint) {
+    if (limits.deniedMints?.includes(trade.mint)) {
+      throw violation(
+        `Token ${trade.mint} is on the denylist for account ${trade.accountName}.`,
+        { ...context, rule: "deniedMints" }
+      );
+    }
+
+    if (limits.allowedMints && !limits.allowedMints.includes(trade.mint)) {
+      throw violation(
+        `Token ${trade.mint} is not on the allowlist for account ${trade.accountName}.`,
+        { ...context, rule: "allowedMints" }
+      );
+    }
+  }
+
+  const solAmount = trade.solAmount || 0;
+
+  if (
+    limits.maxSolPerTrade !== undefined &&
+    solAmount > limits.maxSolPerTrade
+  ) {
+    throw violation(
+      `${solAmount} SOL exceeds the per-trade limit of ${limits.maxSolPerTrade} SOL for account ${trade.accountName}.`,
+      {
+        ...context,
+        rule: "maxSolPerTrade",
+        limit: limits.maxSolPerTrade,
+        requested: solAmount,
+      }
+    );
+  }
+
+  if (limits.maxSolPer24h !== undefined) {
+    const publicKey = trade.publicKey.toString();
+    const { spent } = getSpentInWindow(publicKey);
+    const reserved = getReservedSol(publicKey);
+    const remaining = Math.max(0, limits.maxSolPer24h - spent - reserved);
+    if (solAmount > remaining) {
+      throw violation(
+        `${solAmount} SOL exceeds the remaining 24 hour budget of ${remaining} SOL for account ${
+          trade.accountName
+        } (${spent} of ${limits.maxSolPer24h} SOL spent${
+          reserved > 0 ? `, ${reserved} SOL in trades still in progress` : ""
+        }).`,
+        {
+          ...context,
+          rule: "maxSolPer24h",
+          limit: limits.maxSolPer24h,
+          spent,
+          reserved,
+          remaining,
+          requested: solAmount,
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Enforces the spending policy and holds the trade's SOL against the 24 hour
+ * budget, so concurrent trades cannot each pass the check and together exceed
+ * it. Call the returned function once the trade is journaled or has failed.
+ */
+export function reserveSpending(trade: SpendingTrade) {
+  enforceSpendingPolicy(trade);
+
+  if (trade.side === "sell" || !trade.solAmount) {
+    return () => {};
+  }
+
+  const reservation = {
+    publicKey: trade.publicKey.toString(),
+    solAmount: trade.solAmount,
+  };
+  reservations.add(reservation);
+  return () => {
+    reservations.delete(reservation);
+  };
+}
+
+export async function getSpendingBudget(accountName: string = "default") {
+  try {
+    const account = await resolveAddress(accountName);
+    const policy = loadSpendingPolicy();
+    const limits = getAccountLimits(policy, account.accountName);
+    const window = getSpentInWindow(account.publicKey.toString());
+    const reserved = getReservedSol(account.publicKey.toString());
+
+    return {
+      success: true as const,
+      accountName: account.accountName,
+      publicKey: account.publicKey.toString(),
+      policyPath: getPolicyPath(),
+      hasPolicy: policy !== null,
+      limits,
+      spentLast24h: window.spent,
+      tradesLast24h: window.trades,
+      reserved,
+      remaining24h:
+        limits.maxSolPer24h !== undefined
+          ? Math.max(0, limits.maxSolPer24h - window.spent - reserved)
+          : null,
+      nextRelease:
+        limits.maxSolPer24h !== undefined && window.nextRelease !== null
+          ? new Date(window.nextRelease).toISOString()
+          : null,
+    };
+  } catch (error: any) {
+    console.error("Error getting spending budget:", error);
+    return errorResult(error, { accountName });
+  }
+}
+
+export function formatSpendingBudgetResult(
+  result: ReturnType<typeof getSpendingBudget> extends Promise<infer T>
+    ? T
+    : never
+) {
+  if (!result.success) {
+    return `Error getting spending budget: ${result.error}`;
+  }
+
+  const { limits } = result;
+  const lines = [
+    `Account: ${
+      result.accountName
+        ? `${result.accountName} (${result.publicKey})`
+        : result.publicKey
+    }`,
+    result.hasPolicy
+      ? `Policy: ${result.policyPath}`
+      : `Policy: none (no file at ${result.policyPath}), trades are not limited`,
+    `Max SOL per Trade: ${limits.maxSolPerTrade ?? "no limit"}`,
+    `Max SOL per 24h: ${limits.maxSolPer24h ?? "no limit"}`,
+    `Max Slippage: ${
+      limits.maxSlippageBasisPoints !== undefined
+        ? `${limits.maxSlippageBasisPoints} basis points`
+        : "no limit"
+    }`,
+    `Allowed Mints: ${
+      limits.allowedMints ? limits.allowedMints.join(", ") || "none" : "any"
+    }`,
+    `Denied Mints: ${limits.deniedMints?.join(", ") || "none"}`,
+    `Spent in Last 24h: ${result.spentLast24h} SOL (${result.tradesLast24h} trades)`,
+    `In Progress: ${result.reserved} SOL`,
+    `Remaining 24h Budget: ${
+      result.remaining24h !== null ? `${result.remaining24h} SOL` : "no limit"
+    }`,
+  ];
+
+  if (result.nextRelease) {
+    lines.push(`Budget Next Frees Up At: ${result.nextRelease}`);
+  }
+
+  return lines.join("\n");
+}
+
+export const spendingBudgetOutputSchema = {
+  accountName: z.string().optional(),
+  publicKey: z.string(),
+  policyPath: z.string(),
+  hasPolicy: z.boolean(),
+  limits: z.object({
+    maxSolPerTrade: z.string().optional(),
+    maxSolPer24h: z.string().optional(),
+    maxSlippageBasisPoints: z.number().optional(),
+    allowedMints: z.array(z.string()).optional(),
+    deniedMints: z.array(z.string()).optional(),
+  }),
+  spentLast24h: z.string(),
+  tradesLast24h: z.number(),
+  reserved: z.string().describe("SOL of buys and creates still in progress"),
+  remaining24h: z.string().nullable(),
+  nextRelease: z.string().nullable(),
+};
+
+export function toSpendingBudgetStructuredContent(
+  result: Extract<
+    ReturnType<typeof getSpendingBudget> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  const { limits } = result;
+
+  return {
+    accountName: result.accountName,
+    publicKey: result.publicKey,
+    policyPath: result.policyPath,
+    hasPolicy: result.hasPolicy,
+    limits: {
+      maxSolPerTrade:
+        limits.maxSolPerTrade !== undefined
+          ? String(limits.maxSolPerTrade)
+          : undefined,
+      maxSolPer24h:
+        limits.maxSolPer24h !== undefined
+          ? String(limits.maxSolPer24h)
+          : undefined,
+      maxSlippageBasisPoints: limits.maxSlippageBasisPoints,
+      allowedMints: limits.allowedMints,
+      deniedMints: limits.deniedMints,
+    },
+    spentLast24h: String(result.spentLast24h),
+    tradesLast24h: result.tradesLast24h,
+    reserved: String(result.reserved),
+    remaining24h:
+      result.remaining24h !== null ? String(result.remaining24h) : null,
+    nextRelease: result.nextRelease,
+  };
+}
+
+async function main() {
+  const accountName = process.argv[2] || "default";
+
+  try {
+    const result = await getSpendingBudget(accountName);
+
+    console.log("\nResult:");
+    const formattedResult = formatSpendingBudgetResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  loadSpendingPolicy,
+  enforceSpendingPolicy,
+  reserveSpending,
+  getSpendingBudget,
+  formatSpendingBudgetResult,
+  toSpendingBudgetStructuredContent,
+};
@@ -0,0 +1,407 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import { resolveAddress } from "./list-accounts.js";
+import { quoteBuy, formatQuoteBuyResult } from "./quote-buy.js";
+import { quoteSell, formatQuoteSellResult } from "./quote-sell.js";
+import { PriorityFeeOptions } from "./priority-fees.js";
+import { BatchBuyAllocation, resolveAllocations, sumSol } from "./batch-buy.js";
+import { ErrorResult, PumpfunError, errorResult } from "./errors.js";
+import { rootDir } from "./utils.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const DEFAULT_CONFIRMATION_THRESHOLD_SOL = 1;
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+export const confirmationTokenInputSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Token from a CONFIRMATION_REQUIRED error, passed back with the same arguments once the user has approved the trade"
+  );
+
+export type ConfirmedTool =
+  | "buy-token"
+  | "sell-token"
+  | "create-token"
+  | "batch-buy"
+  | "launch-bundle"
+  | "create-dca-schedule";
+
+export type TradeDescription = {
+  solAmount: number;
+  lines: string[];
+};
+
+type PendingTrade = {
+  tool: ConfirmedTool;
+  args: string;
+  expiresAt: number;
+};
+
+// Trades prepared for clients without elicitation, keyed by confirmation token
+const pendingTrades = new Map<string, PendingTrade>();
+
+/**
+ * Reads CONFIRM_TRADES_ABOVE_SOL. Returns null when confirmations are turned
+ * off with "off".
+ */
+export function getConfirmationThreshold(): number | null {
+  const value = process.env.CONFIRM_TRADES_ABOVE_SOL;
+  if (value === undefined || value === "") {
+    return DEFAULT_CONFIRMATION_THRESHOLD_SOL;
+  }
+  if (value === "off") {
+    return null;
+  }
+
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(
+      `CONFIRM_TRADES_ABOVE_SOL must be a non-negative number or "off", got "${value}"`
+    );
+  }
+  return parsed;
+}
+
+async function describeAccount(accountName: string) {
+  try {
+    const account = await resolveAddress(accountName);
+    return `Account: ${accountName} (${account.publicKey.toString()})`;
+  } catch (error) {
+    return `Account: ${accountName}`;
+  }
+}
+
+export async function describeBuy(
+  tokenAddress: string,
+  buyAmount: number,
+  accountName: string,
+  slippageBasisPoints: number,
+  priorityFeeOptions: PriorityFeeOptions = {}
+): Promise<TradeDescription | ErrorResult> {
+  const quote = await quoteBuy(
+    tokenAddress,
+    buyAmount,
+    slippageBasisPoints,
+    priorityFeeOptions
+  );
+  if (!quote.success) {
+    return quote;
+  }
+
+  return {
+    solAmount: buyAmount,
+    lines: [
+      `Buy ${buyAmount} SOL of ${tokenAddress}`,
+      await describeAccount(accountName),
+      `Mint: ${tokenAddress}`,
+      ...formatQuoteBuyResult(quote).split("\n").slice(2),
+    ],
+  };
+}
+
+export async function describeSell(
+  tokenAddress: string,
+  sellAmount: number,
+  accountName: string,
+  slippageBasisPoints: number,
+  priorityFeeOptions: PriorityFeeOptions = {}
+): Promise<TradeDescription | ErrorResult> {
+  const quote = await quoteSell(
+    tokenAddress,
+    sellAmount === 0 ? "all" : sellAmount,
+    accountName,
+    slippageBasisPoints,
+    priorityFeeOptions
+  );
+  if (!quote.success) {
+    return quote;
+  }
+
+  return {
+    solAmount: quote.expectedSol,
+    lines: [
+      `Sell ${quote.tokensToSell} tokens of ${tokenAddress}`,
+      `Account: ${accountName} (${quote.publicKey})`,
+      `Mint: ${tokenAddress}`,
+      ...formatQuoteSellResult(quote).split("\n").slice(3),
+    ],
+  };
+}
+
+export async function describeCreate(
+  name: string,
+  symbol: string,
+  initialBuyAmount: number,
+  accountName: string
+): Promise<TradeDescription> {
+  return {
+    solAmount: initialBuyAmount,
+    lines: [
+      `Create token ${name} (${symbol}) with an initial buy of ${initialBuyAmount} SOL`,
+      await describeAccount(accountName),
+      `Mint: a new mint address is generated when the token is created`,
+    ],
+  };
+}
+
+/**
+ * The SOL a batch buy spends, or undefined when the allocations are invalid
+ * and describeBatchBuy should report why.
+ */
+export function getBatchBuySolAmount(request: {
+  allocations?: BatchBuyAllocation[];
+  accountNames?: string[];
+  totalSol?: number;
+}) {
+  try {
+    return sumSol(resolveAllocations(request));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export async function describeBatchBuy(
+  tokenAddress: string,
+  request: {
+    allocations?: BatchBuyAllocation[];
+    accountNames?: string[];
+    totalSol?: number;
+  }
+): Promise<TradeDescription | ErrorResult> {
+  let allocations: BatchBuyAllocation[];
+  try {
+    allocations = resolveAllocations(request);
+  } catch (error) {
+    return errorResult(error, { tokenAddress });
+  }
+
+  return {
+    solAmount: sumSol(allocations),
+    lines: [
+      `Batch buy ${tokenAddress} from ${allocations.length} accounts`,
+      `Mint: ${tokenAddress}`,
+      ...allocations.map(
+        (allocation) =>
+          `  ${allocation.accountName}: ${allocation.amountSol} SOL`
+      ),
+    ],
+  };
+}
+
+export function getLaunchBundleSolAmount(
+  initialBuyAmount: number,
+  buyers: BatchBuyAllocation[],
+  accountName: string
+) {
+  return sumSol([{ accountName, amountSol: initialBuyAmount }, ...buyers]);
+}
+
+export async function describeLaunchBundle(
+  name: string,
+  symbol: string,
+  initialBuyAmount: number,
+  buyers: BatchBuyAllocation[],
+  accountName: string
+): Promise<TradeDescription> {
+  return {
+    solAmount: getLaunchBundleSolAmount(initialBuyAmount, buyers, accountName),
+    lines: [
+      `Launch token ${name} (${symbol}) with a bundle of ${
+        buyers.length + 1
+      } buys`,
+      await describeAccount(accountName),
+      `Mint: a new mint address is generated when the token is created`,
+      `  ${accountName} (creator): ${initialBuyAmount} SOL`,
+      ...buyers.map(
+        (buyer) => `  ${buyer.accountName}: ${buyer.amountSol} SOL`
+      ),
+    ],
+  };
+}
+
+/**
+ * The SOL a DCA schedule spends over all of its runs. The schedule is
+ * confirmed once when it is created, since its runs happen unattended.
+ */
+export function getDcaScheduleSolAmount(amountSol: number, totalBuys: number) {
+  return (
+    (Math.round(amountSol * LAMPORTS_PER_SOL) * totalBuys) / LAMPORTS_PER_SOL
+  );
+}
+
+export async function describeDcaSchedule(
+  tokenAddress: string,
+  amountSol: number,
+  intervalMinutes: number,
+  totalBuys: number,
+  accountName: string,
+  maxPrice?: number
+): Promise<TradeDescription> {
+  return {
+    solAmount: getDcaScheduleSolAmount(amountSol, totalBuys),
+    lines: [
+      `Schedule ${totalBuys} buys of ${amountSol} SOL of ${tokenAddress}, one every ${intervalMinutes} minutes`,
+      await describeAccount(accountName),
+      `Mint: ${tokenAddress}`,
+      ...(maxPrice !== undefined
+        ? [`Price Ceiling: ${maxPrice} SOL per token`]
+        : []),
+    ],
+  };
+}
+
+function prunePendingTrades(now: number) {
+  for (const [token, pending] of pendingTrades) {
+    if (pending.expiresAt <= now) {
+      pendingTrades.delete(token);
+    }
+  }
+}
+
+/**
+ * Asks the user to confirm trades worth more than the configured threshold.
+ * Clients that support elicitation are prompted directly. Other clients get a
+ * CONFIRMATION_REQUIRED error with a single-use token that is bound to the
+ * exact arguments, to be passed back once the user has approved the trade.
+ * When the SOL amount is known from the arguments, trades at or below the
+ * threshold go ahead without fetching a description, so a failing quote only
+ * blocks trades that need a prompt. Returns null when the trade may go ahead,
+ * or the error result to return.
+ */
+export async function requireConfirmation(
+  server: Server,
+  request: {
+    tool: ConfirmedTool;
+    args: Record<string, unknown>;
+    confirmationToken?: string;
+    solAmount?: number;
+    describe: () => Promise<TradeDescription | ErrorResult>;
+  }
+): Promise<ErrorResult | null> {
+  const now = Date.now();
+  prunePendingTrades(now);
+  const args = JSON.stringify(request.args);
+
+  if (request.confirmationToken) {
+    const pending = pendingTrades.get(request.confirmationToken);
+    if (!pending) {
+      return errorResult(
+        new PumpfunError(
+          "INVALID_INPUT",
+          `Confirmation token ${request.confirmationToken} is unknown, already used or expired. Call ${request.tool} again without it to prepare a new confirmation.`,
+          { tool: request.tool }
+        )
+      );
+    }
+    if (pending.tool !== request.tool || pending.args !== args) {
+      return errorResult(
+        new PumpfunError(
+          "INVALID_INPUT",
+          `Confirmation token ${request.confirmationToken} was issued for a different trade. Call ${request.tool} again with the same arguments it was prepared with.`,
+          { tool: request.tool, preparedFor: pending.tool }
+        )
+      );
+    }
+
+    pendingTrades.delete(request.confirmationToken);
+    return null;
+  }
+
+  const threshold = getConfirmationThreshold();
+  if (
+    threshold === null ||
+    (request.solAmount !== undefined && request.solAmount <= threshold)
+  ) {
+    return null;
+  }
+
+  const description = await request.describe();
+  if ("success" in description) {
+    return description;
+  }
+  if (description.solAmount <= threshold) {
+    return null;
+  }
+
+  const message = [
+    `This trade moves ${description.solAmount} SOL, above the confirmation threshold of ${threshold} SOL.`,
+    ...description.lines,
+  ].join("\n");
+  const context = {
+    tool: request.tool,
+    solAmount: description.solAmount,
+    threshold,
+  };
+
+  if (server.getClientCapabilities()?.elicitation?.form) {
+    const result = await server.elicitInput({
+      message,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: {
+            type: "boolean",
+            title: "Confirm trade",
+            description: "Sign and send this trade",
+          },
+        },
+        required: ["confirm"],
+      },
+    });
+
+    if (result.action === "accept" && result.content?.confirm === true) {
+      return null;
+    }
+
+    return errorResult(
+      new PumpfunError(
+        "TRADE_DECLINED",
+        `The trade was not confirmed, so nothing was signed or sent.\n${message}`,
+        { ...context, action: result.action }
+      )
+    );
+  }
+
+  const token = randomBytes(16).toString("hex");
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingTrades.set(token, { tool: request.tool, args, expiresAt });
+
+  return errorResult(
+    new PumpfunError(
+      "CONFIRMATION_REQUIRED",
+      [
+        message,
+        "",
+        `Nothing was signed or sent. Show this trade to the user, and once they approve it, call ${request.tool} again with the same arguments and confirmationToken "${token}".`,
+        `The token can be used once and expires at ${new Date(
+          expiresAt
+        ).toISOString()}.`,
+      ].join("\n"),
+      {
+        ...context,
+        confirmationToken: token,
+        expiresAt: new Date(expiresAt).toISOString(),
+      }
+    )
+  );
+}
+
+export default {
+  getConfirmationThreshold,
+  describeBuy,
+  describeSell,
+  describeCreate,
+  describeBatchBuy,
+  describeLaunchBundle,
+  getBatchBuySolAmount,
+  getLaunchBundleSolAmount,
+  describeDcaSchedule,
+  getDcaScheduleSolAmount,
+  requireConfirmation,
+};
@@ -0,0 +1,125 @@
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+import { PumpFunSDK } from "pumpdotfun-sdk";
+import fs from "fs";
+import path from "path";
+import { parsePumpTransaction } from "./get-trade-history.js";
+import { lamportsToSol } from "./bonding-curve.js";
+import { rootDir } from "./utils.js";
+
+export const dataFolder = path.resolve(rootDir, ".data");
+const journalPath = path.join(dataFolder, "trades.jsonl");
+
+export type JournalEntry = {
+  timestamp: string;
+  accountName: string;
+  publicKey: string;
+  mint: string;
+  side: "buy" | "sell" | "create";
+  solAmount: number;
+  tokenAmount: number;
+  protocolFee: number;
+  networkFee: number;
+  signature: string;
+};
+
+export function ensureDataFolder() {
+  if (!fs.existsSync(dataFolder)) {
+    fs.mkdirSync(dataFolder, { recursive: true });
+  }
+  return dataFolder;
+}
+
+export function appendJournalEntry(entry: JournalEntry) {
+  ensureDataFolder();
+  fs.appendFileSync(journalPath, JSON.stringify(entry) + "\n");
+}
+
+export function readJournal(): JournalEntry[] {
+  if (!fs.existsSync(journalPath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(journalPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch (error) {
+        console.error("Skipping unreadable journal line:", line);
+        return [];
+      }
+    });
+}
+
+/**
+ * Records a confirmed trade. Amounts and fees come from the pump.fun trade event
+ * when the transaction has one; otherwise the caller's balance deltas are used,
+ * which already include fees. Journal failures are logged and never fail the
+ * trade itself.
+ */
+export async function recordTrade(
+  sdk: PumpFunSDK,
+  trade: {
+    accountName: string;
+    publicKey: PublicKey;
+    mint: string;
+    side: JournalEntry["side"];
+    signature: string;
+    transaction?: VersionedTransactionResponse;
+    fallback: { solAmount: number; tokenAmount: number };
+  }
+) {
+  try {
+    const parsed = trade.transaction
+      ? parsePumpTransaction(
+          sdk,
+          trade.signature,
+          trade.transaction,
+          trade.publicKey
+        ).find(
+          (entry) =>
+            entry.mint === trade.mint &&
+            entry.side === (trade.side === "sell" ? "sell" : "buy") &&
+            entry.source === "event"
+        )
+      : undefined;
+
+    let solAmount = trade.fallback.solAmount;
+    let tokenAmount = trade.fallback.tokenAmount;
+    let protocolFee = 0;
+    let networkFee = 0;
+
+    if (parsed) {
+      const globalAccount = await sdk.getGlobalAccount();
+      solAmount = parsed.solAmount;
+      tokenAmount = parsed.tokenAmount;
+      protocolFee = (solAmount * Number(globalAccount.feeBasisPoints)) / 10000;
+      networkFee = lamportsToSol(trade.transaction?.meta?.fee || 0);
+    }
+
+    appendJournalEntry({
+      timestamp: new Date(
+        (trade.transaction?.blockTime ?? Date.now() / 1000) * 1000
+      ).toISOString(),
+      accountName: trade.accountName,
+      publicKey: trade.publicKey.toString(),
+      mint: trade.mint,
+      side: trade.side,
+      solAmount,
+      tokenAmount,
+      protocolFee,
+      networkFee,
+      signature: trade.signature,
+    });
+  } catch (error: any) {
+    console.error("Error recording trade in journal:", error);
+  }
+}
+
+export default {
+  appendJournalEntry,
+  readJournal,
+  recordTrade,
+};
@@ -0,0 +1,244 @@
+import {
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  Transaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { resolveAccount, resolveAddress } from "./list-accounts.js";
+import { rootDir } from "./utils.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+const FEE_BUFFER_LAMPORTS = 10000;
+
+export async function transferSol(
+  fromAccountName: string,
+  destination: string,
+  amount: number | "max"
+) {
+  try {
+    const { connection } = initializeSDK();
+
+    const source = await resolveAccount(fromAccountName);
+    const target = await resolveAddress(destination);
+
+    if (source.publicKey.equals(target.publicKey)) {
+      return errorResult(
+        new PumpfunError(
+          "INVALID_INPUT",
+          "Source and destination are the same account",
+          { destination }
+        )
+      );
+    }
+
+    const sourceBalance = await connection.getBalance(source.publicKey);
+    const rentExemptMinimum =
+      await connection.getMinimumBalanceForRentExemption(0);
+
+    let lamports: number;
+    if (amount === "max") {
+      lamports = sourceBalance - rentExemptMinimum - FEE_BUFFER_LAMPORTS;
+      if (lamports <= 0) {
+        return errorResult(
+          new PumpfunError(
+            "INSUFFICIENT_SOL",
+            `Account ${fromAccountName} has ${
+              sourceBalance / LAMPORTS_PER_SOL
+            } SOL, which does not cover the rent and fee buffer of ${
+              (rentExemptMinimum + FEE_BUFFER_LAMPORTS) / LAMPORTS_PER_SOL
+            } SOL`,
+            {
+              publicKey: source.publicKey.toString(),
+              balance: sourceBalance / LAMPORTS_PER_SOL,
+            }
+          )
+        );
+      }
+    } else {
+      lamports = Math.round(amount * LAMPORTS_PER_SOL);
+      // The source has to stay rent-exempt, or the RPC rejects the transfer
+      const available = sourceBalance - rentExemptMinimum - FEE_BUFFER_LAMPORTS;
+      if (lamports > available) {
+        return errorResult(
+          new PumpfunError(
+            "INSUFFICIENT_SOL",
+            `Insufficient SOL balance. Account ${fromAccountName} has ${
+              sourceBalance / LAMPORTS_PER_SOL
+            } SOL, of which at most ${
+              Math.max(available, 0) / LAMPORTS_PER_SOL
+            } SOL can be sent after keeping the rent-exempt minimum of ${
+              rentExemptMinimum / LAMPORTS_PER_SOL
+            } SOL and the fee buffer. Use "max" to send that amount.`,
+            {
+              publicKey: source.publicKey.toString(),
+              balance: sourceBalance / LAMPORTS_PER_SOL,
+              available: Math.max(available, 0) / LAMPORTS_PER_SOL,
+              rentExemptMinimum: rentExemptMinimum / LAMPORTS_PER_SOL,
+            }
+          )
+        );
+      }
+    }
+
+    const destinationBalance = await connection.getBalance(target.publicKey);
+    if (destinationBalance === 0 && lamports < rentExemptMinimum) {
+      return errorResult(
+        new PumpfunError(
+          "INVALID_INPUT",
+          `Destination ${target.publicKey.toString()} is empty, so the transfer must be at least the rent-exempt minimum of ${
+            rentExemptMinimum / LAMPORTS_PER_SOL
+          } SOL`,
+          {
+            destination: target.publicKey.toString(),
+            rentExemptMinimum: rentExemptMinimum / LAMPORTS_PER_SOL,
+          }
+        )
+      );
+    }
+
+    console.error(
+      `Transferring ${
+        lamports / LAMPORTS_PER_SOL
+      } SOL from ${source.publicKey.toString()} to ${target.publicKey.toString()}`
+    );
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: source.publicKey,
+        toPubkey: target.publicKey,
+        lamports,
+      })
+    );
+
+    const signature = await sendAndConfirmTransaction(
+      connection,
+      transaction,
+      [source],
+      { commitment: "confirmed" }
+    );
+
+    const [newSourceBalance, newDestinationBalance] = await Promise.all([
+      connection.getBalance(source.publicKey, "confirmed"),
+      connection.getBalance(target.publicKey, "confirmed"),
+    ]);
+
+    return {
+      success: true as const,
+      fromAccount: fromAccountName,
+      fromAddress: source.publicKey.toString(),
+      toAccount: target.accountName,
+      toAddress: target.publicKey.toString(),
+      amountSent: lamports / LAMPORTS_PER_SOL,
+      signature,
+      sourceBalance: newSourceBalance / LAMPORTS_PER_SOL,
+      destinationBalance: newDestinationBalance / LAMPORTS_PER_SOL,
+    };
+  } catch (error: any) {
+    console.error("Error transferring SOL:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatTransferSolResult(
+  result: ReturnType<typeof transferSol> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error transferring SOL: ${result.error}`;
+  }
+
+  const destinationLabel = result.toAccount
+    ? `${result.toAccount} (${result.toAddress})`
+    : result.toAddress;
+
+  return [
+    `Successfully transferred SOL!`,
+    `From: ${result.fromAccount} (${result.fromAddress})`,
+    `To: ${destinationLabel}`,
+    `Amount Sent: ${result.amountSent} SOL`,
+    `Source Balance: ${result.sourceBalance} SOL`,
+    `Destination Balance: ${result.destinationBalance} SOL`,
+    `Transaction Signature: ${result.signature}`,
+  ].join("\n");
+}
+
+export const transferSolOutputSchema = {
+  fromAccount: z.string(),
+  fromAddress: z.string(),
+  toAccount: z.string().optional(),
+  toAddress: z.string(),
+  amountSent: z.string(),
+  signature: z.string(),
+  sourceBalance: z.string(),
+  destinationBalance: z.string(),
+};
+
+export function toTransferSolStructuredContent(
+  result: Extract<
+    ReturnType<typeof transferSol> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    fromAccount: result.fromAccount,
+    fromAddress: result.fromAddress,
+    toAccount: result.toAccount,
+    toAddress: result.toAddress,
+    amountSent: String(result.amountSent),
+    signature: result.signature,
+    sourceBalance: String(result.sourceBalance),
+    destinationBalance: String(result.destinationBalance),
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 3) {
+    console.error(
+      "Usage: node transfer-sol.js <from_account> <destination_account_or_address> <amount_sol|max>"
+    );
+    console.error("Example: node transfer-sol.js treasury trader1 0.5");
+    process.exit(1);
+  }
+
+  const fromAccountName = args[0];
+  const destination = args[1];
+  const amount = args[2] === "max" ? ("max" as const) : parseFloat(args[2]);
+
+  if (amount !== "max" && (isNaN(amount) || amount <= 0)) {
+    console.error("Amount must be a positive number or 'max'");
+    process.exit(1);
+  }
+
+  try {
+    const result = await transferSol(fromAccountName, destination, amount);
+
+    console.log("\nResult:");
+    const formattedResult = formatTransferSolResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  transferSol,
+  formatTransferSolResult,
+  toTransferSolStructuredContent,
+};
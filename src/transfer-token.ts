@@ -0,0 +1,301 @@
+import {
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+  getMint,
+} from "@solana/spl-token";
+import { initializeSDK, createMcpResponse } from "./get-token-info.js";
+import { resolveAccount, resolveAddress } from "./list-accounts.js";
+import { getSPLBalance, rootDir } from "./utils.js";
+import { PumpfunError, errorResult } from "./errors.js";
+import path from "path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+dotenv.config({ path: path.join(rootDir, ".env") });
+
+export async function transferToken(
+  tokenAddress: string,
+  fromAccountName: string,
+  destination: string,
+  amount: number | "all" = "all"
+) {
+  try {
+    const { connection } = initializeSDK();
+
+    const source = await resolveAccount(fromAccountName);
+    const target = await resolveAddress(destination);
+
+    if (source.publicKey.equals(target.publicKey)) {
+      return errorResult(
+        new PumpfunError(
+          "INVALID_INPUT",
+          "Source and destination are the same account",
+          { destination }
+        )
+      );
+    }
+
+    const mintPublicKey = new PublicKey(tokenAddress);
+    const mintAccountInfo = await connection.getAccountInfo(mintPublicKey);
+    if (!mintAccountInfo) {
+      return errorResult(
+        new PumpfunError(
+          "ACCOUNT_NOT_FOUND",
+          `No mint found with address ${tokenAddress}`,
+          { tokenAddress }
+        )
+      );
+    }
+
+    const tokenProgramId = mintAccountInfo.owner;
+    const mint = await getMint(
+      connection,
+      mintPublicKey,
+      undefined,
+      tokenProgramId
+    );
+
+    const tokenBalance =
+      (await getSPLBalance(connection, mintPublicKey, source.publicKey)) || 0;
+
+    if (tokenBalance === 0) {
+      return errorResult(
+        new PumpfunError(
+          "NO_TOKEN_BALANCE",
+          `No tokens to transfer. Account ${source.publicKey.toString()} has 0 tokens of ${tokenAddress}.`,
+          { publicKey: source.publicKey.toString(), tokenAddress }
+        )
+      );
+    }
+
+    if (amount !== "all" && amount > tokenBalance) {
+      return errorResult(
+        new PumpfunError(
+          "NO_TOKEN_BALANCE",
+          `Insufficient token balance. Account ${fromAccountName} has ${tokenBalance} tokens of ${tokenAddress}, but the transfer needs ${amount}.`,
+          {
+            publicKey: source.publicKey.toString(),
+            tokenAddress,
+            balance: tokenBalance,
+          }
+        )
+      );
+    }
+
+    const sourceTokenAccount = await getAssociatedTokenAddress(
+      mintPublicKey,
+      source.publicKey,
+      false,
+      tokenProgramId
+    );
+
+    const amountToTransfer = amount === "all" ? tokenBalance : amount;
+    const rawAmount =
+      amount === "all"
+        ? (
+            await getAccount(
+              connection,
+              sourceTokenAccount,
+              undefined,
+              tokenProgramId
+            )
+          ).amount
+        : BigInt(Math.round(amount * Math.pow(10, mint.decimals)));
+
+    const destinationTokenAccount = await getAssociatedTokenAddress(
+      mintPublicKey,
+      target.publicKey,
+      true,
+      tokenProgramId
+    );
+
+    const destinationAccountExists =
+      (await connection.getAccountInfo(destinationTokenAccount)) !== null;
+
+    console.error(
+      `Transferring ${amountToTransfer} tokens of ${tokenAddress} from ${source.publicKey.toString()} to ${target.publicKey.toString()}`
+    );
+
+    const transaction = new Transaction();
+    if (!destinationAccountExists) {
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          source.publicKey,
+          destinationTokenAccount,
+          target.publicKey,
+          mintPublicKey,
+          tokenProgramId
+        )
+      );
+    }
+    transaction.add(
+      createTransferCheckedInstruction(
+        sourceTokenAccount,
+        mintPublicKey,
+        destinationTokenAccount,
+        source.publicKey,
+        rawAmount,
+        mint.decimals,
+        [],
+        tokenProgramId
+      )
+    );
+
+    const signature = await sendAndConfirmTransaction(
+      connection,
+      transaction,
+      [source],
+      { commitment: "confirmed" }
+    );
+
+    const [sourceTokenBalance, destinationTokenBalance] = await Promise.all([
+      getSPLBalance(connection, mintPublicKey, source.publicKey),
+      getSPLBalance(connection, mintPublicKey, target.publicKey),
+    ]);
+
+    return {
+      success: true as const,
+      tokenAddress,
+      fromAccount: fromAccountName,
+      fromAddress: source.publicKey.toString(),
+      toAccount: target.accountName,
+      toAddress: target.publicKey.toString(),
+      amountSent: amountToTransfer,
+      createdTokenAccount: !destinationAccountExists,
+      signature,
+      sourceTokenBalance: sourceTokenBalance || 0,
+      destinationTokenBalance: destinationTokenBalance || 0,
+    };
+  } catch (error: any) {
+    console.error("Error transferring token:", error);
+    return errorResult(error);
+  }
+}
+
+export function formatTransferTokenResult(
+  result: ReturnType<typeof transferToken> extends Promise<infer T> ? T : never
+) {
+  if (!result.success) {
+    return `Error transferring token: ${result.error}`;
+  }
+
+  const destinationLabel = result.toAccount
+    ? `${result.toAccount} (${result.toAddress})`
+    : result.toAddress;
+
+  const lines = [
+    `Successfully transferred tokens!`,
+    `Token Address: ${result.tokenAddress}`,
+    `From: ${result.fromAccount} (${result.fromAddress})`,
+    `To: ${destinationLabel}`,
+    `Amount Sent: ${result.amountSent}`,
+  ];
+
+  if (result.createdTokenAccount) {
+    lines.push(`Created destination token account`);
+  }
+
+  lines.push(
+    `Source Token Balance: ${result.sourceTokenBalance}`,
+    `Destination Token Balance: ${result.destinationTokenBalance}`,
+    `Transaction Signature: ${result.signature}`
+  );
+
+  return lines.join("\n");
+}
+
+export const transferTokenOutputSchema = {
+  tokenAddress: z.string(),
+  fromAccount: z.string(),
+  fromAddress: z.string(),
+  toAccount: z.string().optional(),
+  toAddress: z.string(),
+  amountSent: z.string(),
+  createdTokenAccount: z.boolean(),
+  signature: z.string(),
+  sourceTokenBalance: z.string(),
+  destinationTokenBalance: z.string(),
+};
+
+export function toTransferTokenStructuredContent(
+  result: Extract<
+    ReturnType<typeof transferToken> extends Promise<infer T> ? T : never,
+    { success: true }
+  >
+) {
+  return {
+    tokenAddress: result.tokenAddress,
+    fromAccount: result.fromAccount,
+    fromAddress: result.fromAddress,
+    toAccount: result.toAccount,
+    toAddress: result.toAddress,
+    amountSent: String(result.amountSent),
+    createdTokenAccount: result.createdTokenAccount,
+    signature: result.signature,
+    sourceTokenBalance: String(result.sourceTokenBalance),
+    destinationTokenBalance: String(result.destinationTokenBalance),
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 3) {
+    console.error(
+      "Usage: node transfer-token.js <token_address> <from_account> <destination_account_or_address> [amount|all]"
+    );
+    console.error(
+      "Example: node transfer-token.js G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump trader1 default all"
+    );
+    process.exit(1);
+  }
+
+  const tokenAddress = args[0];
+  const fromAccountName = args[1];
+  const destination = args[2];
+  const amount =
+    !args[3] || args[3] === "all" ? ("all" as const) : parseFloat(args[3]);
+
+  if (amount !== "all" && (isNaN(amount) || amount <= 0)) {
+    console.error("Amount must be a positive number or 'all'");
+    process.exit(1);
+  }
+
+  try {
+    const result = await transferToken(
+      tokenAddress,
+      fromAccountName,
+      destination,
+      amount
+    );
+
+    console.log("\nResult:");
+    const formattedResult = formatTransferTokenResult(result);
+    console.log(formattedResult);
+
+    const mcpResponse = createMcpResponse(formattedResult);
+
+    console.log("\nMCP Response (for reference):");
+    console.log(JSON.stringify(mcpResponse, null, 2));
+  } catch (error: any) {
+    console.error("Error in main:", error);
+  }
+}
+
+const isMainModule = import.meta.url === `file://${process.argv[1]}`;
+if (isMainModule) {
+  main().catch(console.error);
+}
+
+export default {
+  transferToken,
+  formatTransferTokenResult,
+  toTransferTokenStructuredContent,
+};
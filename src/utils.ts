@@ -7,6 +7,7 @@ import {
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { readKeypairFile, writeKeypairFile } from "./keystore.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -41,14 +42,10 @@ function getOrCreateKeypair(keysFolder: string, name: string): Keypair {
     }
 
     if (fs.existsSync(keypairPath)) {
-      const keypairData = JSON.parse(fs.readFileSync(keypairPath, "utf-8"));
-      return Keypair.fromSecretKey(new Uint8Array(keypairData));
+      return readKeypairFile(keypairPath);
     } else {
       const keypair = Keypair.generate();
-      fs.writeFileSync(
-        keypairPath,
-        JSON.stringify(Array.from(keypair.secretKey))
-      );
+      writeKeypairFile(keypairPath, keypair);
       return keypair;
     }
   } catch (error) {
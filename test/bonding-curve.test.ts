@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { BondingCurveAccount, GlobalAccount } from "pumpdotfun-sdk";
+import {
+  amountToTokenUnits,
+  calculateBuyQuote,
+  calculateSellQuote,
+  getPriceFromReserves,
+  lamportsToSol,
+  solToLamports,
+  tokenUnitsToAmount,
+} from "../src/bonding-curve.js";
+
+// The reserves every pump.fun curve starts with
+function createCurve(complete = false) {
+  return new BondingCurveAccount(
+    0n,
+    1_073_000_000_000_000n,
+    30_000_000_000n,
+    793_100_000_000_000n,
+    0n,
+    1_000_000_000_000_000n,
+    complete
+  );
+}
+
+const globalAccount = { feeBasisPoints: 100n } as GlobalAccount;
+
+describe("solToLamports", () => {
+  it("converts amounts that are not exact in floating point", () => {
+    expect(solToLamports(0.0041)).toBe(4_100_000n);
+    expect(solToLamports(0.1 + 0.2)).toBe(300_000_000n);
+  });
+
+  it("converts whole and tiny amounts", () => {
+    expect(solToLamports(1)).toBe(1_000_000_000n);
+    expect(solToLamports(0.000000001)).toBe(1n);
+    expect(solToLamports(0)).toBe(0n);
+  });
+
+  it("round-trips with lamportsToSol", () => {
+    expect(lamportsToSol(solToLamports(12.345678901))).toBe(12.345678901);
+  });
+});
+
+describe("amountToTokenUnits", () => {
+  it("converts fractional balances without throwing", () => {
+    for (let i = 1; i <= 1000; i++) {
+      const amount = (i * 1_234.567) / 7;
+      expect(() => amountToTokenUnits(amount)).not.toThrow();
+    }
+    expect(amountToTokenUnits(1234.567891)).toBe(1_234_567_891n);
+  });
+
+  it("round-trips with tokenUnitsToAmount", () => {
+    expect(tokenUnitsToAmount(amountToTokenUnits(98765.4321))).toBe(98765.4321);
+  });
+});
+
+describe("getPriceFromReserves", () => {
+  it("prices tokens in SOL", () => {
+    expect(getPriceFromReserves(30_000_000_000n, 1_073_000_000_000_000n)).toBe(
+      30 / 1_073_000_000
+    );
+  });
+
+  it("returns zero without token reserves", () => {
+    expect(getPriceFromReserves(30_000_000_000n, 0n)).toBe(0);
+  });
+});
+
+describe("calculateBuyQuote", () => {
+  it("applies slippage and fees to a buy", () => {
+    const quote = calculateBuyQuote(
+      createCurve(),
+      globalAccount,
+      solToLamports(1),
+      100n
+    );
+
+    expect(quote.tokensOut).toBeGreaterThan(0n);
+    expect(quote.minTokensOut).toBe(quote.tokensOut - quote.tokensOut / 100n);
+    expect(quote.maxSolCost).toBe(1_010_000_000n);
+    expect(quote.protocolFee).toBe(10_000_000n);
+    expect(quote.effectivePrice).toBeGreaterThan(quote.spotPrice);
+    expect(quote.priceAfter).toBeGreaterThan(quote.spotPrice);
+  });
+});
+
+describe("calculateSellQuote", () => {
+  it("takes the fee out of the SOL received", () => {
+    const quote = calculateSellQuote(
+      createCurve(),
+      globalAccount,
+      amountToTokenUnits(1_000_000),
+      100n
+    );
+
+    expect(quote.solOut).toBe(quote.grossSolOut - quote.protocolFee);
+    expect(quote.minSolOut).toBeLessThan(quote.solOut);
+    expect(quote.priceAfter).toBeLessThan(quote.spotPrice);
+  });
+
+  it("rejects a complete curve", () => {
+    expect(() =>
+      calculateSellQuote(createCurve(true), globalAccount, 1n, 100n)
+    ).toThrow("Curve is complete");
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { confirmBundle, getSignature } from "../src/bundle-sender.js";
+import { toSendError } from "../src/send-transaction.js";
+
+function createTransaction() {
+  const payer = Keypair.generate();
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: "11111111111111111111111111111111",
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: payer.publicKey,
+          toPubkey: payer.publicKey,
+          lamports: 1,
+        }),
+      ],
+    }).compileToV0Message()
+  );
+  transaction.sign([payer]);
+  return transaction;
+}
+
+const transactions = [createTransaction(), createTransaction()];
+
+function createConnection(overrides: Record<string, unknown>) {
+  return {
+    getSignatureStatuses: async (signatures: string[]) => ({
+      value: signatures.map(() => null),
+    }),
+    getBlockHeight: async () => 50,
+    getTransaction: async () => null,
+    ...overrides,
+  } as unknown as Connection;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("confirmBundle", () => {
+  it("keeps waiting through RPC errors until every leg confirms", async () => {
+    let checks = 0;
+    const connection = createConnection({
+      getSignatureStatuses: async (signatures: string[]) => {
+        checks++;
+        if (checks < 3) {
+          throw new Error("fetch failed");
+        }
+        return {
+          value: signatures.map(() => ({
+            confirmationStatus: "confirmed",
+            err: null,
+          })),
+        };
+      },
+    });
+
+    const pending = confirmBundle(connection, transactions, 100, "confirmed");
+    await vi.advanceTimersByTimeAsync(10000);
+    const results = await pending;
+
+    expect(results.map((result) => result.status)).toEqual([
+      "confirmed",
+      "confirmed",
+    ]);
+    expect(results[1].signature).toBe(getSignature(transactions[1]));
+  });
+
+  it("reports expiry when no leg landed", async () => {
+    const connection = createConnection({ getBlockHeight: async () => 101 });
+
+    const results = await confirmBundle(
+      connection,
+      transactions,
+      100,
+      "confirmed"
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      "expired",
+      "expired",
+    ]);
+  });
+
+  it("gives up with an unknown status when the RPC stays down", async () => {
+    const connection = createConnection({
+      getSignatureStatuses: async () => {
+        throw new Error("503 Service Unavailable");
+      },
+    });
+
+    const pending = confirmBundle(connection, transactions, 100, "confirmed");
+    await vi.advanceTimersByTimeAsync(200000);
+    const results = await pending;
+
+    expect(results.map((result) => result.status)).toEqual([
+      "unknown",
+      "unknown",
+    ]);
+    expect(results[0].error).toMatch(/503 Service Unavailable/);
+
+    const error = toSendError(results[0]);
+    expect(error.code).toBe("TRANSACTION_UNCONFIRMED");
+    expect(error.retryable).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  PumpfunError,
+  errorResult,
+  formatErrorCode,
+  toToolError,
+} from "../src/errors.js";
+import { createMcpErrorResponse } from "../src/get-token-info.js";
+
+describe("toToolError", () => {
+  it("keeps the code and context of a PumpfunError", () => {
+    const error = new PumpfunError("NO_TOKEN_BALANCE", "No tokens", {
+      mint: "abc",
+    });
+
+    expect(toToolError(error, { accountName: "default" })).toEqual({
+      code: "NO_TOKEN_BALANCE",
+      message: "No tokens",
+      retryable: false,
+      context: { accountName: "default", mint: "abc" },
+    });
+  });
+
+  it("classifies unreachable RPC nodes as retryable", () => {
+    const toolError = toToolError(new TypeError("fetch failed"));
+
+    expect(toolError.code).toBe("RPC_UNAVAILABLE");
+    expect(toolError.retryable).toBe(true);
+  });
+
+  it("classifies malformed addresses", () => {
+    expect(toToolError(new Error("Invalid public key input")).code).toBe(
+      "INVALID_ADDRESS"
+    );
+  });
+
+  it("falls back to UNKNOWN", () => {
+    expect(toToolError("something odd").code).toBe("UNKNOWN");
+  });
+});
+
+describe("formatErrorCode", () => {
+  it("marks retryable codes", () => {
+    expect(
+      formatErrorCode({ code: "SLIPPAGE_EXCEEDED", retryable: true })
+    ).toBe("Error Code: SLIPPAGE_EXCEEDED (retryable)");
+    expect(formatErrorCode({ code: "UNKNOWN", retryable: false })).toBe(
+      "Error Code: UNKNOWN"
+    );
+  });
+});
+
+describe("createMcpErrorResponse", () => {
+  it("carries no structuredContent, which would fail output schema validation", () => {
+    const failure = errorResult(
+      new PumpfunError("CONFIRMATION_REQUIRED", "Approve this trade", {
+        confirmationToken: "abc123",
+      })
+    );
+    const response = createMcpErrorResponse(
+      "Error buying token: Approve this trade",
+      failure
+    );
+
+    expect(response.isError).toBe(true);
+    expect(response).not.toHaveProperty("structuredContent");
+  });
+
+  it("ends the text with the error code and context", () => {
+    const failure = errorResult(
+      new PumpfunError("CONFIRMATION_REQUIRED", "Approve this trade", {
+        confirmationToken: "abc123",
+        solAmount: 2,
+      })
+    );
+    const [content] = createMcpErrorResponse(
+      "Error buying token",
+      failure
+    ).content;
+
+    expect(content.text.split("\n")).toEqual([
+      "Error buying token",
+      "Error Code: CONFIRMATION_REQUIRED",
+      'Error Context: {"confirmationToken":"abc123","solAmount":2}',
+    ]);
+  });
+
+  it("leaves out an empty context", () => {
+    const [content] = createMcpErrorResponse(
+      "Error",
+      errorResult(new Error("boom"))
+    ).content;
+
+    expect(content.text).toBe("Error\nError Code: UNKNOWN");
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  decryptKeypair,
+  encryptKeypair,
+  readKeypairFile,
+  readPublicKeyFromFile,
+  unlockKeystore,
+} from "../src/keystore.js";
+
+const keypair = Keypair.generate();
+const passphrase = "correct horse battery staple";
+const encrypted = encryptKeypair(keypair, passphrase);
+let keysFolder: string;
+
+function writeKeyFile(name: string, contents: string) {
+  const filePath = path.join(keysFolder, name);
+  fs.writeFileSync(filePath, contents);
+  return filePath;
+}
+
+beforeEach(() => {
+  keysFolder = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(keysFolder, { recursive: true, force: true });
+  delete process.env.KEYSTORE_PASSPHRASE;
+  delete process.env.ALLOW_PLAINTEXT_KEYS;
+  vi.restoreAllMocks();
+});
+
+describe("encryptKeypair", () => {
+  it("round-trips a keypair through its passphrase", () => {
+    expect(encrypted.publicKey).toBe(keypair.publicKey.toString());
+    expect(encrypted.crypto.ciphertext).not.toContain(
+      Buffer.from(keypair.secretKey).toString("hex")
+    );
+
+    const decrypted = decryptKeypair(encrypted, passphrase);
+    expect(decrypted.secretKey).toEqual(keypair.secretKey);
+  });
+
+  it("rejects the wrong passphrase", () => {
+    expect(() => decryptKeypair(encrypted, "wrong passphrase")).toThrow(
+      "Invalid keystore passphrase"
+    );
+  });
+
+  it("rejects a tampered ciphertext", () => {
+    const ciphertext = Buffer.from(encrypted.crypto.ciphertext, "hex");
+    ciphertext[0] ^= 1;
+    const tampered = {
+      ...encrypted,
+      crypto: { ...encrypted.crypto, ciphertext: ciphertext.toString("hex") },
+    };
+
+    expect(() => decryptKeypair(tampered, passphrase)).toThrow(
+      "Invalid keystore passphrase"
+    );
+  });
+});
+
+describe("readKeypairFile", () => {
+  it("decrypts encrypted files with the configured passphrase", () => {
+    process.env.KEYSTORE_PASSPHRASE = passphrase;
+    const filePath = writeKeyFile("default.json", JSON.stringify(encrypted));
+
+    expect(readKeypairFile(filePath).secretKey).toEqual(keypair.secretKey);
+    expect(readPublicKeyFromFile(filePath).equals(keypair.publicKey)).toBe(
+      true
+    );
+  });
+
+  it("rejects plaintext files unless ALLOW_PLAINTEXT_KEYS is set", () => {
+    const filePath = writeKeyFile(
+      "default.json",
+      JSON.stringify(Array.from(keypair.secretKey))
+    );
+
+    expect(() => readKeypairFile(filePath)).toThrow(/stored as plaintext/);
+    expect(() => readPublicKeyFromFile(filePath)).toThrow(
+      /stored as plaintext/
+    );
+
+    process.env.ALLOW_PLAINTEXT_KEYS = "true";
+    expect(readKeypairFile(filePath).secretKey).toEqual(keypair.secretKey);
+  });
+});
+
+describe("unlockKeystore", () => {
+  it("checks the passphrase against an encrypted key file", async () => {
+    writeKeyFile("default.json", JSON.stringify(encrypted));
+    process.env.KEYSTORE_PASSPHRASE = "wrong passphrase";
+
+    await expect(unlockKeystore(keysFolder)).rejects.toThrow(
+      "Invalid keystore passphrase"
+    );
+  });
+
+  it("skips files that are not key files", async () => {
+    writeKeyFile("notes.json", "{ not json");
+    writeKeyFile("default.json", JSON.stringify(encrypted));
+    process.env.KEYSTORE_PASSPHRASE = passphrase;
+
+    expect(await unlockKeystore(keysFolder)).toEqual({
+      unlocked: true,
+      message: "Keystore unlocked",
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { isTriggered, resolveTriggerPrice } from "../src/sell-orders.js";
+
+describe("isTriggered", () => {
+  it("triggers a take-profit at or above its price", () => {
+    expect(isTriggered("take-profit", 2, 1.99)).toBe(false);
+    expect(isTriggered("take-profit", 2, 2)).toBe(true);
+    expect(isTriggered("take-profit", 2, 3)).toBe(true);
+  });
+
+  it("triggers a stop-loss at or below its price", () => {
+    expect(isTriggered("stop-loss", 1, 1.01)).toBe(false);
+    expect(isTriggered("stop-loss", 1, 1)).toBe(true);
+    expect(isTriggered("stop-loss", 1, 0.5)).toBe(true);
+  });
+});
+
+describe("resolveTriggerPrice", () => {
+  it("uses an absolute trigger price", () => {
+    expect(
+      resolveTriggerPrice("take-profit", { triggerPrice: 0.5 }, null)
+    ).toBe(0.5);
+  });
+
+  it("applies a percentage change to the reference price", () => {
+    expect(
+      resolveTriggerPrice("take-profit", { changePercent: 100 }, 0.25)
+    ).toBe(0.5);
+    expect(
+      resolveTriggerPrice("stop-loss", { changePercent: -40 }, 1)
+    ).toBeCloseTo(0.6);
+  });
+
+  it("requires exactly one of triggerPrice and changePercent", () => {
+    expect(() => resolveTriggerPrice("take-profit", {}, 1)).toThrow(
+      /exactly one/
+    );
+    expect(() =>
+      resolveTriggerPrice(
+        "take-profit",
+        { triggerPrice: 1, changePercent: 10 },
+        1
+      )
+    ).toThrow(/exactly one/);
+  });
+
+  it("rejects changes that point the wrong way", () => {
+    expect(() =>
+      resolveTriggerPrice("take-profit", { changePercent: -10 }, 1)
+    ).toThrow(/must be positive/);
+    expect(() =>
+      resolveTriggerPrice("stop-loss", { changePercent: 10 }, 1)
+    ).toThrow(/between -100 and 0/);
+    expect(() =>
+      resolveTriggerPrice("stop-loss", { changePercent: -100 }, 1)
+    ).toThrow(/between -100 and 0/);
+  });
+
+  it("rejects a non-positive trigger price", () => {
+    expect(() =>
+      resolveTriggerPrice("stop-loss", { triggerPrice: 0 }, null)
+    ).toThrow(/triggerPrice must be positive/);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  buildTransaction,
+  sendAndConfirm,
+  toSendError,
+} from "../src/send-transaction.js";
+
+const payer = Keypair.generate();
+const transaction = new Transaction().add(
+  SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: payer.publicKey,
+    lamports: 1,
+  })
+);
+
+const blockhash = "11111111111111111111111111111111";
+const signed = buildTransaction(transaction, payer.publicKey, blockhash);
+signed.sign([payer]);
+const signature = bs58.encode(signed.signatures[0]);
+
+function createConnection(overrides: Record<string, unknown>) {
+  return {
+    getLatestBlockhash: async () => ({
+      blockhash,
+      lastValidBlockHeight: 100,
+    }),
+    sendRawTransaction: async () => signature,
+    getSignatureStatuses: async () => ({ value: [null] }),
+    getBlockHeight: async () => 50,
+    getTransaction: async () => null,
+    ...overrides,
+  } as unknown as Connection;
+}
+
+function send(connection: Connection) {
+  return sendAndConfirm(
+    connection,
+    transaction,
+    payer.publicKey,
+    [payer],
+    undefined,
+    "confirmed"
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("sendAndConfirm", () => {
+  it("keeps waiting through RPC errors until the transaction confirms", async () => {
+    let checks = 0;
+    const connection = createConnection({
+      getSignatureStatuses: async () => {
+        checks++;
+        if (checks < 3) {
+          throw new Error("fetch failed");
+        }
+        return { value: [{ confirmationStatus: "confirmed", err: null }] };
+      },
+      getTransaction: async () => {
+        throw new Error("fetch failed");
+      },
+    });
+
+    const pending = send(connection);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(await pending).toMatchObject({
+      status: "confirmed",
+      signature,
+      transaction: undefined,
+    });
+  });
+
+  it("watches a transaction whose first send errored", async () => {
+    let sends = 0;
+    const connection = createConnection({
+      sendRawTransaction: async () => {
+        sends++;
+        if (sends === 1) {
+          throw new Error("fetch failed");
+        }
+        return signature;
+      },
+      getSignatureStatuses: async () => ({
+        value: [
+          sends > 1 ? { confirmationStatus: "confirmed", err: null } : null,
+        ],
+      }),
+    });
+
+    const pending = send(connection);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(await pending).toMatchObject({ status: "confirmed", signature });
+    expect(sends).toBe(2);
+  });
+
+  it("reports a preflight rejection as never sent", async () => {
+    const connection = createConnection({
+      sendRawTransaction: async () => {
+        throw new SendTransactionError({
+          action: "send",
+          signature: "",
+          transactionMessage: "Transaction simulation failed",
+          logs: ["Program log: insufficient lamports"],
+        });
+      },
+    });
+
+    const result = await send(connection);
+
+    expect(result).toMatchObject({
+      status: "failed",
+      signature: "",
+      logs: ["Program log: insufficient lamports"],
+    });
+    expect(toSendError(result).code).toBe("TRANSACTION_FAILED");
+  });
+
+  it("reports a failed transaction with its program error", async () => {
+    const connection = createConnection({
+      getSignatureStatuses: async () => ({
+        value: [
+          {
+            confirmationStatus: "confirmed",
+            err: { InstructionError: [0, { Custom: 1 }] },
+          },
+        ],
+      }),
+    });
+
+    const result = await send(connection);
+
+    expect(result.status).toBe("failed");
+    expect(result.programError).toBeDefined();
+  });
+
+  it("reports expiry only when the transaction is not found", async () => {
+    const connection = createConnection({ getBlockHeight: async () => 101 });
+
+    const result = await send(connection);
+
+    expect(result.status).toBe("expired");
+    expect(toSendError(result).retryable).toBe(true);
+  });
+
+  it("gives up with an unknown status when the RPC stays down", async () => {
+    const connection = createConnection({
+      getSignatureStatuses: async () => {
+        throw new Error("503 Service Unavailable");
+      },
+    });
+
+    const pending = send(connection);
+    await vi.advanceTimersByTimeAsync(200000);
+    const result = await pending;
+
+    expect(result.status).toBe("unknown");
+    expect(result.signature).toBe(signature);
+    expect(result.error).toMatch(/503 Service Unavailable/);
+
+    const error = toSendError(result);
+    expect(error.code).toBe("TRANSACTION_UNCONFIRMED");
+    expect(error.retryable).toBe(false);
+    expect(error.context.signature).toBe(signature);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair } from "@solana/web3.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { JournalEntry } from "../src/trade-journal.js";
+import {
+  enforceSpendingPolicy,
+  getAccountLimits,
+  getReservedSol,
+  getSpentInWindow,
+  reserveSpending,
+} from "../src/spending-policy.js";
+
+const journal = vi.hoisted(() => [] as JournalEntry[]);
+
+vi.mock("../src/trade-journal.js", () => ({
+  readJournal: () => journal,
+}));
+
+const publicKey = Keypair.generate().publicKey;
+const mint = "G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump";
+let policyFolder: string;
+
+function writePolicy(policy: unknown) {
+  fs.writeFileSync(process.env.SPENDING_POLICY_FILE!, JSON.stringify(policy));
+}
+
+function buy(solAmount: number, slippageBasisPoints = 100) {
+  return {
+    accountName: "default",
+    publicKey,
+    side: "buy" as const,
+    mint,
+    solAmount,
+    slippageBasisPoints,
+  };
+}
+
+function journalEntry(
+  side: JournalEntry["side"],
+  solAmount: number,
+  hoursAgo: number
+): JournalEntry {
+  return {
+    timestamp: new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString(),
+    accountName: "default",
+    publicKey: publicKey.toString(),
+    mint,
+    side,
+    solAmount,
+    tokenAmount: 1000,
+    protocolFee: 0,
+    networkFee: 0,
+    signature: "signature",
+  };
+}
+
+function getViolation(trade: Parameters<typeof enforceSpendingPolicy>[0]) {
+  try {
+    enforceSpendingPolicy(trade);
+  } catch (error: any) {
+    return error;
+  }
+  return null;
+}
+
+beforeEach(() => {
+  policyFolder = fs.mkdtempSync(path.join(os.tmpdir(), "spending-policy-"));
+  process.env.SPENDING_POLICY_FILE = path.join(policyFolder, "policy.json");
+  journal.length = 0;
+});
+
+afterEach(() => {
+  fs.rmSync(policyFolder, { recursive: true, force: true });
+  delete process.env.SPENDING_POLICY_FILE;
+});
+
+describe("getAccountLimits", () => {
+  it("overrides the default entry field by field", () => {
+    expect(
+      getAccountLimits(
+        {
+          default: { maxSolPerTrade: 1, maxSolPer24h: 5 },
+          accounts: { sniper: { maxSolPerTrade: 0.1 } },
+        },
+        "sniper"
+      )
+    ).toEqual({ maxSolPerTrade: 0.1, maxSolPer24h: 5 });
+  });
+
+  it("has no limits without a policy", () => {
+    expect(getAccountLimits(null, "default")).toEqual({});
+  });
+});
+
+describe("getSpentInWindow", () => {
+  it("counts buys and creates from the last 24 hours", () => {
+    journal.push(
+      journalEntry("buy", 0.5, 1),
+      journalEntry("create", 0.25, 2),
+      journalEntry("sell", 3, 1),
+      journalEntry("buy", 4, 25)
+    );
+
+    expect(getSpentInWindow(publicKey.toString())).toMatchObject({
+      spent: 0.75,
+      trades: 2,
+    });
+  });
+});
+
+describe("enforceSpendingPolicy", () => {
+  it("allows everything without a policy file", () => {
+    expect(getViolation(buy(100, 10000))).toBeNull();
+  });
+
+  it("rejects slippage above the limit, for sells too", () => {
+    writePolicy({ default: { maxSlippageBasisPoints: 500 } });
+
+    const violation = getViolation({
+      ...buy(0, 1000),
+      side: "sell",
+    });
+    expect(violation.code).toBe("POLICY_VIOLATION");
+    expect(violation.context.rule).toBe("maxSlippageBasisPoints");
+  });
+
+  it("applies mint lists to buys only", () => {
+    writePolicy({ default: { deniedMints: [mint] } });
+
+    expect(getViolation(buy(0.1)).context.rule).toBe("deniedMints");
+    expect(getViolation({ ...buy(0.1), side: "sell" })).toBeNull();
+  });
+
+  it("rejects buys outside the allowlist", () => {
+    writePolicy({ default: { allowedMints: ["other"] } });
+
+    expect(getViolation(buy(0.1)).context.rule).toBe("allowedMints");
+  });
+
+  it("rejects a trade above the per-trade limit", () => {
+    writePolicy({ default: { maxSolPerTrade: 0.5 } });
+
+    expect(getViolation(buy(0.5))).toBeNull();
+    expect(getViolation(buy(0.6)).context.rule).toBe("maxSolPerTrade");
+  });
+
+  it("counts journaled trades against the 24 hour budget", () => {
+    writePolicy({ default: { maxSolPer24h: 1 } });
+    journal.push(journalEntry("buy", 0.7, 1));
+
+    expect(getViolation(buy(0.3))).toBeNull();
+    expect(getViolation(buy(0.4)).context).toMatchObject({
+      rule: "maxSolPer24h",
+      spent: 0.7,
+    });
+  });
+
+  it("rejects an invalid policy file", () => {
+    writePolicy({ default: { maxSolPerTrade: -1 } });
+
+    expect(getViolation(buy(0.1)).code).toBe("INVALID_INPUT");
+  });
+});
+
+describe("reserveSpending", () => {
+  it("holds in-flight trades against the 24 hour budget until released", () => {
+    writePolicy({ default: { maxSolPer24h: 1 } });
+
+    const release = reserveSpending(buy(0.6));
+    expect(getReservedSol(publicKey.toString())).toBe(0.6);
+    expect(() => reserveSpending(buy(0.6))).toThrow(
+      /0.6 SOL in trades still in progress/
+    );
+
+    release();
+    expect(getReservedSol(publicKey.toString())).toBe(0);
+    reserveSpending(buy(0.6))();
+  });
+
+  it("releases each reservation only once", () => {
+    const first = reserveSpending(buy(0.2));
+    const second = reserveSpending(buy(0.2));
+
+    first();
+    first();
+    expect(getReservedSol(publicKey.toString())).toBe(0.2);
+    second();
+    expect(getReservedSol(publicKey.toString())).toBe(0);
+  });
+
+  it("does not reserve anything for sells", () => {
+    reserveSpending({ ...buy(1), side: "sell" });
+
+    expect(getReservedSol(publicKey.toString())).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  TradeDescription,
+  getBatchBuySolAmount,
+  getConfirmationThreshold,
+  getDcaScheduleSolAmount,
+  requireConfirmation,
+} from "../src/trade-confirmation.js";
+
+const args = {
+  tokenAddress: "G5e2XonmccmdKc98g3eNQe5oBYGw9m8xdMUvVtcZpump",
+  buyAmount: 2,
+  accountName: "default",
+};
+
+function createServer(
+  elicitInput?: (request: unknown) => Promise<{
+    action: "accept" | "decline" | "cancel";
+    content?: Record<string, unknown>;
+  }>
+) {
+  return {
+    getClientCapabilities: () =>
+      elicitInput ? { elicitation: { form: {} } } : {},
+    elicitInput,
+  } as unknown as Server;
+}
+
+function describeTrade(solAmount: number) {
+  return vi.fn(
+    async (): Promise<TradeDescription> => ({
+      solAmount,
+      lines: [`Buy ${solAmount} SOL`],
+    })
+  );
+}
+
+async function getConfirmationToken(server: Server) {
+  const rejection = await requireConfirmation(server, {
+    tool: "buy-token",
+    args,
+    solAmount: 2,
+    describe: describeTrade(2),
+  });
+  expect(rejection?.code).toBe("CONFIRMATION_REQUIRED");
+  return rejection!.context.confirmationToken as string;
+}
+
+beforeEach(() => {
+  process.env.CONFIRM_TRADES_ABOVE_SOL = "1";
+});
+
+afterEach(() => {
+  delete process.env.CONFIRM_TRADES_ABOVE_SOL;
+});
+
+describe("getConfirmationThreshold", () => {
+  it("defaults to 1 SOL and can be turned off", () => {
+    delete process.env.CONFIRM_TRADES_ABOVE_SOL;
+    expect(getConfirmationThreshold()).toBe(1);
+
+    process.env.CONFIRM_TRADES_ABOVE_SOL = "off";
+    expect(getConfirmationThreshold()).toBeNull();
+  });
+
+  it("rejects values that are not numbers", () => {
+    process.env.CONFIRM_TRADES_ABOVE_SOL = "lots";
+    expect(() => getConfirmationThreshold()).toThrow(
+      /CONFIRM_TRADES_ABOVE_SOL/
+    );
+  });
+});
+
+describe("requireConfirmation", () => {
+  it("lets known amounts below the threshold through without a quote", async () => {
+    const describe = describeTrade(0.5);
+
+    const rejection = await requireConfirmation(createServer(), {
+      tool: "buy-token",
+      args: { ...args, buyAmount: 0.5 },
+      solAmount: 0.5,
+      describe,
+    });
+
+    expect(rejection).toBeNull();
+    expect(describe).not.toHaveBeenCalled();
+  });
+
+  it("describes trades whose amount is only known from a quote", async () => {
+    const describe = describeTrade(0.5);
+
+    const rejection = await requireConfirmation(createServer(), {
+      tool: "sell-token",
+      args,
+      describe,
+    });
+
+    expect(rejection).toBeNull();
+    expect(describe).toHaveBeenCalledOnce();
+  });
+
+  it("returns the description's error when the quote fails", async () => {
+    const failure = {
+      success: false as const,
+      error: "fetch failed",
+      code: "RPC_UNAVAILABLE" as const,
+      retryable: true,
+      context: {},
+    };
+
+    const rejection = await requireConfirmation(createServer(), {
+      tool: "sell-token",
+      args,
+      describe: async () => failure,
+    });
+
+    expect(rejection).toBe(failure);
+  });
+
+  it("accepts a token once, for the same tool and arguments", async () => {
+    const server = createServer();
+    const token = await getConfirmationToken(server);
+
+    const confirmed = await requireConfirmation(server, {
+      tool: "buy-token",
+      args,
+      confirmationToken: token,
+      describe: describeTrade(2),
+    });
+    expect(confirmed).toBeNull();
+
+    const reused = await requireConfirmation(server, {
+      tool: "buy-token",
+      args,
+      confirmationToken: token,
+      describe: describeTrade(2),
+    });
+    expect(reused?.code).toBe("INVALID_INPUT");
+    expect(reused?.error).toMatch(/unknown, already used or expired/);
+  });
+
+  it("rejects a token passed with different arguments", async () => {
+    const server = createServer();
+    const token = await getConfirmationToken(server);
+
+    const rejection = await requireConfirmation(server, {
+      tool: "buy-token",
+      args: { ...args, buyAmount: 20 },
+      confirmationToken: token,
+      describe: describeTrade(20),
+    });
+
+    expect(rejection?.code).toBe("INVALID_INPUT");
+    expect(rejection?.error).toMatch(/issued for a different trade/);
+  });
+
+  it("rejects a token passed to a different tool", async () => {
+    const server = createServer();
+    const token = await getConfirmationToken(server);
+
+    const rejection = await requireConfirmation(server, {
+      tool: "create-token",
+      args,
+      confirmationToken: token,
+      describe: describeTrade(2),
+    });
+
+    expect(rejection?.context.preparedFor).toBe("buy-token");
+  });
+
+  it("rejects an expired token", async () => {
+    vi.useFakeTimers();
+    try {
+      const server = createServer();
+      const token = await getConfirmationToken(server);
+      vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+      const rejection = await requireConfirmation(server, {
+        tool: "buy-token",
+        args,
+        confirmationToken: token,
+        describe: describeTrade(2),
+      });
+
+      expect(rejection?.code).toBe("INVALID_INPUT");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("asks clients that support elicitation", async () => {
+    const accepted = createServer(async () => ({
+      action: "accept",
+      content: { confirm: true },
+    }));
+    const declined = createServer(async () => ({ action: "decline" }));
+    const request = {
+      tool: "buy-token" as const,
+      args,
+      solAmount: 2,
+      describe: describeTrade(2),
+    };
+
+    expect(await requireConfirmation(accepted, request)).toBeNull();
+    expect((await requireConfirmation(declined, request))?.code).toBe(
+      "TRADE_DECLINED"
+    );
+  });
+});
+
+describe("getBatchBuySolAmount", () => {
+  it("sums the allocations", () => {
+    expect(
+      getBatchBuySolAmount({
+        allocations: [
+          { accountName: "a", amountSol: 0.1 },
+          { accountName: "b", amountSol: 0.2 },
+        ],
+      })
+    ).toBeCloseTo(0.3);
+  });
+
+  it("is undefined for invalid allocations", () => {
+    expect(getBatchBuySolAmount({})).toBeUndefined();
+  });
+});
+
+describe("getDcaScheduleSolAmount", () => {
+  it("counts every run of the schedule", () => {
+    expect(getDcaScheduleSolAmount(0.1, 3)).toBe(0.3);
+    expect(getDcaScheduleSolAmount(0.5, 10)).toBe(5);
+  });
+});